@@ -0,0 +1,123 @@
+import { readFileSync, writeFileSync } from "fs";
+import yaml from "js-yaml";
+
+// Generates src/types.ts from openapi.yml: an interface and a runtime validator per schema, and a
+// params interface per operation. Run with `npm run generate-api` after updating the spec.
+
+const SPEC = "openapi.yml";
+const OUTPUT = "src/types.ts";
+
+// openapi.yml doesn't mark any property as required. These are the ones the API always returns and
+// the plugin relies on; all other properties are optional.
+const REQUIRED = {
+	ContentNode: ["type"],
+	Lifelog: ["id", "title", "contents"],
+	MetaLifelogs: ["count"],
+	Meta: ["lifelogs"],
+	LifelogsResponseData: ["lifelogs"],
+	LifelogsResponse: ["data", "meta"],
+};
+
+const spec = yaml.load(readFileSync(SPEC, "utf8"));
+const schemas = spec.components.schemas;
+const lines = [
+	"// Interfaces for the Limitless API, generated from openapi.yml by generate-api.mjs.",
+	"// Don't edit this file, edit the spec or the generator and run `npm run generate-api`.",
+	"",
+	"import { Schema, validate } from './apiValidation';",
+	"",
+];
+
+const refName = (ref) => ref.replace("#/components/schemas/", "");
+
+function pascalCase(name) {
+	return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function comment(description, indent) {
+	return description ? [`${indent}// ${description.trim().replace(/\s+/g, " ")}`] : [];
+}
+
+// TypeScript type of a property or parameter schema
+function typeOf(schema) {
+	if (schema.$ref) return refName(schema.$ref);
+	let type;
+	switch (schema.type) {
+		case "string":
+			type = schema.enum ? schema.enum.map(value => `'${value}'`).join(" | ") : "string";
+			break;
+		case "integer":
+		case "number":
+			type = "number";
+			break;
+		case "boolean":
+			type = "boolean";
+			break;
+		case "array":
+			type = `${typeOf(schema.items)}[]`;
+			break;
+		default:
+			throw new Error(`Unsupported schema type: ${schema.type}`);
+	}
+	return schema.nullable ? `${type} | null` : type;
+}
+
+// Runtime schema (see src/apiValidation.ts) of a property schema
+function runtimeSchema(schema) {
+	if (schema.$ref) return { $ref: refName(schema.$ref) };
+	const result = { type: schema.type };
+	if (schema.enum) result.enum = schema.enum;
+	if (schema.items) result.items = runtimeSchema(schema.items);
+	if (schema.nullable) result.nullable = true;
+	return result;
+}
+
+// One interface per schema
+const runtimeSchemas = {};
+for (const [name, schema] of Object.entries(schemas)) {
+	if (schema.type !== "object") {
+		throw new Error(`Unsupported top-level schema type for ${name}: ${schema.type}`);
+	}
+	const required = REQUIRED[name] || [];
+	const properties = {};
+	lines.push(`export interface ${name} {`);
+	for (const [property, propertySchema] of Object.entries(schema.properties)) {
+		lines.push(...comment(propertySchema.description, "\t"));
+		lines.push(`\t${property}${required.includes(property) ? "" : "?"}: ${typeOf(propertySchema)};`);
+		properties[property] = runtimeSchema(propertySchema);
+	}
+	lines.push("}", "");
+	runtimeSchemas[name] = { type: "object", properties, required };
+}
+
+// One params interface per operation, all query parameters are optional
+for (const [path, methods] of Object.entries(spec.paths)) {
+	for (const [method, operation] of Object.entries(methods)) {
+		lines.push(`// Query parameters of ${method.toUpperCase()} ${path}`);
+		lines.push(`export interface ${pascalCase(operation.operationId)}Params {`);
+		for (const parameter of operation.parameters.filter(parameter => parameter.in === "query")) {
+			lines.push(...comment(parameter.description, "\t"));
+			lines.push(`\t${parameter.name}?: ${typeOf(parameter.schema)};`);
+		}
+		lines.push("}", "");
+	}
+}
+
+// Runtime schemas and a validator per schema
+const literal = (value) => JSON.stringify(value).replace(/"([A-Za-z$]\w*)":/g, "$1: ").replace(/,/g, ", ").replace(/"/g, "'").replace(/{/g, "{ ").replace(/}/g, " }");
+lines.push("export const schemas: Record<string, Schema> = {");
+for (const [name, schema] of Object.entries(runtimeSchemas)) {
+	lines.push(`\t${name}: {`, "\t\ttype: 'object',", "\t\tproperties: {");
+	lines.push(Object.entries(schema.properties).map(([property, propertySchema]) => `\t\t\t${property}: ${literal(propertySchema)}`).join(",\n"));
+	lines.push("\t\t},", `\t\trequired: ${literal(schema.required)}`, "\t},");
+}
+lines[lines.length - 1] = "\t}";
+lines.push("};", "");
+for (const name of Object.keys(schemas)) {
+	lines.push(`export function validate${name}(value: unknown, path: string = '${name}'): ${name} {`);
+	lines.push(`\treturn validate<${name}>(value, schemas.${name}, path, schemas);`);
+	lines.push("}", "");
+}
+
+writeFileSync(OUTPUT, lines.join("\n"));
+console.log(`Wrote ${OUTPUT}`);
@@ -1,65 +1,140 @@
-import { App, Notice, Plugin, PluginSettingTab, Setting, normalizePath, TFile, TFolder, requestUrl } from 'obsidian';
+import { App, Menu, Notice, Plugin, PluginSettingTab, RequestUrlParam, RequestUrlResponse, Setting, normalizePath, TFile, TFolder, requestUrl } from 'obsidian';
 import { format } from 'date-fns';
-
-// Interfaces for the Limitless API
-interface ContentNode {
-	startTime: string;
-	endTime?: string;
-	type: string;
-	value: string;
-}
-
-interface Lifelog {
-	id: string;
-	title: string;
-	markdown: string;
-	contents: ContentNode[];
-}
-
-interface MetaLifelogs {
-	nextCursor?: string;
-	count: number;
-}
-
-interface Meta {
-	lifelogs: MetaLifelogs;
-}
-
-interface LifelogsData {
-	lifelogs: Lifelog[];
-}
-
-interface LifelogsResponse {
-	data: LifelogsData;
-	meta: Meta;
-}
+import { ContentNode, GetLifelogsParams, Lifelog } from './src/types';
+import { LimitlessApiError, LimitlessClient, MAX_PAGE_SIZE } from './src/limitlessClient';
+import { flattenContentNodes, renderLifelogBody } from './src/renderer';
+import { formatDuration, getLifelogSpeakers, getLifelogTimeRange, sanitizeFileName } from './src/lifelogs';
+import { applyNoteFrontmatter, buildLifelogsFrontmatter, mergeFrontmatter, splitFrontmatter } from './src/frontmatter';
+import { mergeManagedRegion, wrapManagedRegion } from './src/managedRegion';
+import { CachedLifelog, LifelogCache } from './src/cache';
+import { SpeakerMapping, SpeakerOptions, formatSpeakerLabel, resolveSpeakerName } from './src/speakers';
+import { TimestampGranularity, TimestampStyle, createTimestampLabeler } from './src/timestamps';
+import { LifelogFilterRule, LifelogFilterSettings, buildFilterRules, filterLifelogs, parsePatterns, parseTimeWindows } from './src/filters';
+import { BUILT_IN_DETECTOR_NAMES, BuiltInDetector, RedactionCounts, RedactionMode, RedactionSettings, Redactor, addRedactionCounts, countRedactions, parseRedactionPatterns } from './src/redaction';
+import { SyncDateModal } from './src/syncDateModal';
+import { FetchWindowModal } from './src/fetchWindowModal';
+import { SyncLogModal } from './src/syncLogModal';
+import { getStatusBarText } from './src/status';
+import { SyncHistory, SyncMode, SyncRun } from './src/syncHistory';
+import { SyncHistoryModal } from './src/syncHistoryModal';
+import { BackfillCheckpoint, createBackfillCheckpoint, describeBackfill, getRemainingBackfillDays, markBackfillDayCompleted } from './src/backfill';
+import { ResumeBackfillModal } from './src/resumeBackfillModal';
+import { RateLimiter } from './src/rateLimiter';
+import { CancellationToken, SyncCancelledError, SyncJob, sleep } from './src/syncJob';
+import { LifelogSpan, MidnightPolicy, getLifelogDays, sliceLifelogToDay } from './src/midnight';
+import { addDays, dayToDate, enumerateDays, formatZonedDateTime, formatZonedTime, getSystemTimezone, getZonedDay, isValidTimezone } from './src/timezone';
+import { DailyNotesConfig, applyDailyNoteTemplate, getDailyNotesConfig, getDailyNotesPath } from './src/dailyNotes';
+import { DEFAULT_PROFILE_ID, LimitlessProfile, PROFILE_SETTING_KEYS, createProfileId, findOutputFolderConflict, migrateLegacyProfile, normalizeProfile } from './src/profiles';
+import { DEFAULT_DAY_TEMPLATE, DEFAULT_INDEX_ENTRY_TEMPLATE, DEFAULT_LIFELOG_TEMPLATE, DayTemplateContext, LifelogTemplateContext, renderTemplate, tidyRenderedTemplate } from './src/templates';
 
 interface LimitlessPluginSettings {
-	apiUrl: string;
-	apiKey: string;
-	outputFolder: string;
+	profiles: LimitlessProfile[]; // Limitless accounts synced into this vault, each with its own credentials, output folder, filters and sync state
+	activeProfileId: string; // Profile shown in the settings and used by the sync commands
 	syncIntervalMinutes: number;
-	lastSyncTimestamp: string;
 	debugMode: boolean;
-	forceOverwrite: boolean;
 	ascendingOrder: boolean; // If true, new entries go at the bottom; if false, new entries go at the top
-	startDate: string; // When the user started using Limitless (YYYY-MM-DD)
-	useSystemTimezone: boolean; // Whether to use the system timezone for API requests
+	timezone: string; // IANA timezone for API requests, day bucketing, note names and rendered times (empty for the system timezone)
+	dailyNoteTemplatePath: string; // Vault path of the daily note template (empty for the built-in template)
+	lifelogTemplatePath: string; // Vault path of the per-lifelog section template (empty for the built-in template)
+	notePathFormat: string; // date-fns format of the daily note path within the output folder, may contain '/'
+	useDailyNotesSettings: boolean; // Write into the notes of the core Daily Notes / Periodic Notes plugin
+	outputMode: 'daily' | 'lifelog'; // One note per day, or one note per lifelog with the daily note as an index
+	lifelogFolder: string; // Folder for per-lifelog notes, relative to the output folder
+	addFrontmatter: boolean; // Add lifelog metadata (ids, times, speakers, ...) to the frontmatter of generated notes
+	midnightPolicy: MidnightPolicy; // Where lifelogs that run past midnight are written
+	userSpeakerName: string; // Speaker label for the user in transcripts
+	speakerMappings: SpeakerMapping[]; // Raw speaker names from the API -> real names
+	linkSpeakers: boolean; // Link speaker names to person notes
+	peopleFolder: string; // Folder of the person notes speakers link to (empty for links by name only)
+	timestampStyle: TimestampStyle; // Prefix transcript lines with clock times or offsets into the recording
+	timestampGranularity: TimestampGranularity; // Which transcript lines get a timestamp
+	timestampIntervalMinutes: number; // Minutes between timestamps with the interval granularity
+	redaction: RedactionSettings; // Redaction of sensitive content before it is written to the vault
+	redactionSalt: string; // Random salt for hashed redactions, generated once per vault
+	dateSyncOverwrite: boolean; // Whether the sync date/range commands overwrite notes by default instead of merging
+	maxConcurrentRequests: number; // API requests in flight at once, also the number of days fetched in parallel
+	requestsPerMinute: number; // Sustained API request rate, lowered automatically while rate limited
+	pageSize: number; // Lifelogs per API request
+	includeHeadings: boolean; // Request heading nodes; without them notes only show the transcript
 }
 
-const DEFAULT_SETTINGS: LimitlessPluginSettings = {
+// Settings of a new profile
+const DEFAULT_PROFILE: Omit<LimitlessProfile, 'id' | 'name'> = {
+	enabled: true,
 	apiUrl: 'https://api.limitless.ai/v1',
 	apiKey: '',
 	outputFolder: 'Limitless',
-	syncIntervalMinutes: 60,
+	startDate: `${new Date().getFullYear()}-01-01`, // Default to January 1st of current year
+	filters: {
+		minDurationSeconds: 0,
+		minUtterances: 0,
+		excludePatterns: '',
+		requireUserSpeaker: false,
+		skipWindows: ''
+	},
 	lastSyncTimestamp: '',
+	lastSyncCompletedAt: '',
+	backfillCheckpoint: null
+};
+
+const DEFAULT_SETTINGS: LimitlessPluginSettings = {
+	profiles: [],
+	activeProfileId: DEFAULT_PROFILE_ID,
+	syncIntervalMinutes: 60,
 	debugMode: false,
-	forceOverwrite: false,
 	ascendingOrder: false, // Default to descending order (new entries at the top)
-	startDate: new Date(new Date().getFullYear(), 0, 1).toISOString().split('T')[0], // Default to January 1st of current year
-	useSystemTimezone: true // Default to using the system timezone
+	timezone: '', // Default to using the system timezone
+	dailyNoteTemplatePath: '',
+	lifelogTemplatePath: '',
+	notePathFormat: 'yyyy-MM-dd',
+	useDailyNotesSettings: false,
+	outputMode: 'daily',
+	lifelogFolder: 'Lifelogs',
+	addFrontmatter: true,
+	midnightPolicy: 'startDay',
+	userSpeakerName: 'Me',
+	speakerMappings: [],
+	linkSpeakers: false,
+	peopleFolder: '',
+	timestampStyle: 'none',
+	timestampGranularity: 'utterance',
+	timestampIntervalMinutes: 5,
+	redaction: {
+		enabled: false,
+		mode: 'mask',
+		detectors: ['email', 'phone', 'creditCard', 'iban', 'ssn'],
+		customPatterns: '',
+		keywords: ''
+	},
+	redactionSalt: '',
+	dateSyncOverwrite: false,
+	maxConcurrentRequests: 5,
+	requestsPerMinute: 60,
+	pageSize: MAX_PAGE_SIZE,
+	includeHeadings: true
+}
+
+// Options of a sync beyond the start date
+interface SyncOptions {
+	endDate?: string; // Last day of a range sync (defaults to today)
+	overwrite?: boolean; // Replace whole note files instead of only the managed region (defaults to forceSync)
+	days?: string[]; // Sync exactly these days instead of a date range
+	mode?: SyncMode; // How the sync is recorded in the history (derived from the other options by default)
+	window?: { start: string; end: string }; // Fetch this datetime window instead of everything since the high-water mark
+	profile?: LimitlessProfile; // Profile to sync (defaults to the selected profile)
 }
 
+// Incremental syncs re-fetch this much before the high-water mark to pick up lifelogs that were still being recorded
+const INCREMENTAL_SYNC_OVERLAP_MS = 15 * 60 * 1000;
+
+// Number of log lines kept for the sync log
+const MAX_LOG_ENTRIES = 500;
+
+// Frontmatter key that ties a per-lifelog note to its lifelog, so renamed notes are still found
+const LIFELOG_ID_KEY = 'limitless-id';
+// Frontmatter key naming the profile a note was synced from, when there's more than one
+const PROFILE_KEY = 'limitless-profile';
+
 // We're extending the HTMLElement interface to add Obsidian-specific methods
 declare global {
 	interface HTMLElement {
@@ -72,8 +147,8 @@ declare global {
 export default class LimitlessPlugin extends Plugin {
 	settings: LimitlessPluginSettings;
 	syncIntervalId: number | null = null;
-	isSyncing: boolean = false;
-	cancelSync: boolean = false;
+	// The running sync, resync or re-render. It stays set after a cancel until its work has drained.
+	currentJob: SyncJob | null = null;
 	
 	// Progress tracking
 	syncProgress: number = 0; // 0-100
@@ -81,13 +156,102 @@ export default class LimitlessPlugin extends Plugin {
 	syncCurrent: number = 0;
 	syncProgressText: string = '';
 	
-	// Debug logger function that only logs when debug mode is enabled
+	// Lifelog id -> note path for one-note-per-lifelog mode, built lazily once per sync
+	private lifelogNoteIndex: Map<string, string> | null = null;
+	// Template errors are only reported once per sync
+	private templateErrorReported: boolean = false;
+	// Redactions per day of the last sync or re-render
+	redactionReport: Map<string, RedactionCounts> = new Map();
+	
+	// Local store of fetched lifelogs of each profile, by profile id, used to skip unchanged entries and
+	// re-render offline
+	private profileCaches: Map<string, LifelogCache> = new Map();
+	// Profiles still waiting in a sync of all profiles
+	private profileSyncQueue: LimitlessProfile[] = [];
+	// Persisted record of past syncs and the days that failed in them
+	syncHistory: SyncHistory;
+	// History entry of the running sync
+	currentSyncRun: SyncRun | null = null;
+	
+	// Schedules every API request, shared by all parallel workers
+	rateLimiter: RateLimiter;
+	
+	// Pending writes per note path, so concurrent writes to one note run one after another
+	private noteLocks: Map<string, Promise<unknown>> = new Map();
+	
+	// Error of the last sync of each profile, by profile id, shown in the status bar until the profile's
+	// next successful sync
+	syncErrors: Map<string, string> = new Map();
+	statusBarEl: HTMLElement | null = null;
+	// Recent log lines for the sync log, oldest first
+	logEntries: string[] = [];
+	
+	get isSyncing(): boolean {
+		return this.currentJob !== null;
+	}
+	
+	// The profile of the running job, or the selected profile when no job runs. A job's profile is fixed
+	// when it starts, so everything the job does works with the same account, folder and cache.
+	get profile(): LimitlessProfile {
+		return this.currentJob ? this.currentJob.profile : this.getSelectedProfile();
+	}
+	
+	// Local lifelog cache of the current profile
+	get lifelogCache(): LifelogCache {
+		return this.getProfileCache(this.profile);
+	}
+	
+	get lastSyncError(): string | null {
+		return this.syncErrors.get(this.profile.id) || null;
+	}
+	
+	// Debug logger function that only logs when debug mode is enabled.
+	// Messages are always kept for the sync log.
 	log(...args: any[]): void {
+		this.recordLogEntry('', args);
+		if (this.settings?.debugMode) {
+			console.log('[Limitless]', ...args);
+		}
+	}
+
+	// Debug logging for details logged many times per sync, e.g. once per lifelog comparison. They only go
+	// to the console, so they don't push the useful lines out of the sync log.
+	trace(...args: any[]): void {
 		if (this.settings?.debugMode) {
 			console.log('[Limitless]', ...args);
 		}
 	}
 
+	logError(...args: any[]): void {
+		this.recordLogEntry('ERROR ', args);
+		console.error(...args);
+	}
+
+	recordLogEntry(prefix: string, args: any[]): void {
+		const message = args.map(arg => {
+			if (typeof arg === 'string') return arg;
+			if (arg instanceof Error) return arg.message;
+			try {
+				return JSON.stringify(arg);
+			} catch (error) {
+				return String(arg);
+			}
+		}).join(' ');
+		
+		// The log can be shown on screen, so never include an API key
+		let safeMessage = message;
+		for (const profile of this.settings?.profiles || []) {
+			if (profile.apiKey) {
+				safeMessage = safeMessage.split(profile.apiKey).join('***');
+			}
+		}
+		
+		this.logEntries.push(`${new Date().toLocaleTimeString()} ${prefix}${safeMessage.slice(0, 1000)}`);
+		if (this.logEntries.length > MAX_LOG_ENTRIES) {
+			this.logEntries.splice(0, this.logEntries.length - MAX_LOG_ENTRIES);
+		}
+	}
+
 	// This method isn't actually needed in Obsidian plugins
 	// Obsidian automatically loads the styles.css file from the plugin directory
 	loadStyles(): void {
@@ -98,41 +262,160 @@ export default class LimitlessPlugin extends Plugin {
 
 	async onload() {
 		await this.loadSettings();
+		this.rateLimiter = new RateLimiter(this.getRateLimiterOptions());
+		
+		// Load the local lifelog caches from the plugin folder
+		await this.loadProfileCaches();
+		const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		this.syncHistory = new SyncHistory(this.app.vault.adapter, normalizePath(`${pluginDir}/sync-history.json`));
+		await this.syncHistory.load();
 
 		// Load CSS styles
 		this.loadStyles();
 
 		// Create the ribbon icon for manual sync
 		const ribbonIconEl = this.addRibbonIcon('sync', 'Limitless - Sync Lifelogs', async () => {
-			await this.syncLifelogs();
+			await this.syncAllProfiles();
 			new Notice('Limitless Lifelogs synced!');
 		});
 
-		// Add status bar item
-		const statusBarItemEl = this.addStatusBarItem();
-		statusBarItemEl.setText('Limitless: Ready');
+		// Add status bar item, showing the live sync state with quick actions on click
+		this.statusBarEl = this.addStatusBarItem();
+		this.statusBarEl.classList.add('mod-clickable');
+		this.statusBarEl.addEventListener('click', (event: MouseEvent) => this.showStatusBarMenu(event));
+		this.updateStatusBar();
+		this.registerInterval(window.setInterval(() => this.updateStatusBar(), 1000));
 
 		// Register commands
 		this.addCommand({
 			id: 'sync-limitless-lifelogs',
 			name: 'Sync Lifelogs',
 			callback: async () => {
-				await this.syncLifelogs();
+				await this.syncAllProfiles();
 				new Notice('Limitless Lifelogs synced!');
 			}
 		});
 
+		this.addCommand({
+			id: 'sync-limitless-today',
+			name: 'Sync today',
+			callback: async () => {
+				const today = getZonedDay(new Date(), this.getTimezone());
+				await this.syncDateRange(today, today, this.settings.dateSyncOverwrite);
+			}
+		});
+
+		this.addCommand({
+			id: 'sync-limitless-yesterday',
+			name: 'Sync yesterday',
+			callback: async () => {
+				const yesterday = addDays(getZonedDay(new Date(), this.getTimezone()), -1);
+				await this.syncDateRange(yesterday, yesterday, this.settings.dateSyncOverwrite);
+			}
+		});
+
+		this.addCommand({
+			id: 'sync-limitless-date',
+			name: 'Sync date…',
+			callback: () => this.openSyncDateModal(false)
+		});
+
+		this.addCommand({
+			id: 'sync-limitless-range',
+			name: 'Sync range…',
+			callback: () => this.openSyncDateModal(true)
+		});
+
+		this.addCommand({
+			id: 'fetch-limitless-window',
+			name: 'Fetch time window…',
+			callback: () => this.openFetchWindowModal()
+		});
+
+		this.addCommand({
+			id: 'resync-limitless-note',
+			name: 'Resync this note',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isLimitlessNote(file)) return false;
+				if (!checking) {
+					this.resyncNote(file);
+				}
+				return true;
+			}
+		});
+
+		this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+			if (!(file instanceof TFile) || !this.isLimitlessNote(file)) return;
+			menu.addItem(item => item
+				.setTitle('Resync from Limitless')
+				.setIcon('sync')
+				.onClick(() => this.resyncNote(file)));
+		}));
+
+		this.addCommand({
+			id: 'show-limitless-sync-history',
+			name: 'Show sync history',
+			callback: () => this.openSyncHistory()
+		});
+
+		this.addCommand({
+			id: 'retry-limitless-failed-days',
+			name: 'Retry failed days',
+			callback: async () => {
+				await this.retryFailedDays();
+			}
+		});
+
+		this.addCommand({
+			id: 'resume-limitless-backfill',
+			name: 'Resume backfill',
+			checkCallback: (checking: boolean) => {
+				if (!this.getSelectedProfile().backfillCheckpoint) return false;
+				if (!checking) {
+					this.resumeBackfill();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'rerender-limitless-notes-from-cache',
+			name: 'Re-render notes from local cache',
+			callback: async () => {
+				await this.rerenderFromCache();
+			}
+		});
+
 		// Add settings tab
 		this.addSettingTab(new LimitlessSettingTab(this.app, this));
 
 		// Initialize the sync interval
 		this.initializeSyncInterval();
 
-		// Perform initial sync on load
-		this.syncLifelogs();
+		// Perform initial sync on load, offering to resume an unfinished backfill first
+		const backfillProfile = this.settings.profiles.find(profile => profile.backfillCheckpoint && profile.apiKey);
+		if (backfillProfile && backfillProfile.backfillCheckpoint) {
+			const profileLabel = this.settings.profiles.length > 1 ? `${backfillProfile.name}: ` : '';
+			new ResumeBackfillModal(this.app, {
+				description: profileLabel + describeBackfill(backfillProfile.backfillCheckpoint),
+				onResume: async () => {
+					await this.resumeBackfill(backfillProfile);
+					this.syncAllProfiles();
+				},
+				onDiscard: async () => {
+					await this.discardBackfill(backfillProfile);
+					this.syncAllProfiles();
+				},
+				onLater: () => this.syncAllProfiles()
+			}).open();
+		} else {
+			this.syncAllProfiles();
+		}
 	}
 
 	onunload() {
+		this.currentJob?.cancel();
 		if (this.syncIntervalId) {
 			window.clearTimeout(this.syncIntervalId);
 			this.log('Cleared sync timeout on plugin unload');
@@ -140,15 +423,198 @@ export default class LimitlessPlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-		this.log('Loaded settings:', this.settings);
+		const data = await this.loadData();
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		
+		// Migrate the old system timezone toggle: turning it off meant the API defaulted to UTC
+		if (data && data.useSystemTimezone === false && !data.timezone) {
+			this.settings.timezone = 'UTC';
+		}
+		delete (this.settings as any).useSystemTimezone;
+		
+		// Settings from before profiles existed become the default profile
+		const storedProfiles: Partial<LimitlessProfile>[] = data && Array.isArray(data.profiles) && data.profiles.length > 0
+			? data.profiles
+			: [migrateLegacyProfile(data || {})];
+		this.settings.profiles = storedProfiles.map(stored => normalizeProfile(stored, DEFAULT_PROFILE));
+		for (const key of PROFILE_SETTING_KEYS) {
+			delete (this.settings as any)[key];
+		}
+		this.settings.redaction = Object.assign({}, DEFAULT_SETTINGS.redaction, data ? data.redaction : undefined);
+		this.settings.redaction.detectors = [...this.settings.redaction.detectors];
+		if (!this.settings.redactionSalt) {
+			this.settings.redactionSalt = Array.from(window.crypto.getRandomValues(new Uint8Array(16)), byte => ('0' + byte.toString(16)).slice(-2)).join('');
+			await this.saveSettings();
+		}
+		// Don't share (and mutate) the default mapping list
+		this.settings.speakerMappings = (this.settings.speakerMappings || []).map(mapping => Object.assign({}, mapping));
+		this.log(`Loaded settings with ${this.settings.profiles.length} profiles`);
 	}
 
 	async saveSettings() {
-		this.log('Saving settings:', JSON.stringify(this.settings));
 		await this.saveData(this.settings);
 	}
 
+	// The profile shown in the settings and used by the sync commands
+	getSelectedProfile(): LimitlessProfile {
+		return this.settings.profiles.find(profile => profile.id === this.settings.activeProfileId) || this.settings.profiles[0];
+	}
+
+	// Name of the current profile for notes and the status bar, only shown when there's more than one profile
+	getProfileLabel(): string | null {
+		return this.settings.profiles.length > 1 ? this.profile.name : null;
+	}
+
+	// Load the local cache of every profile that doesn't have one loaded yet. The default profile keeps
+	// the cache file from before profiles existed.
+	async loadProfileCaches(): Promise<void> {
+		const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		for (const profile of this.settings.profiles) {
+			if (this.profileCaches.has(profile.id)) continue;
+			
+			const fileName = profile.id === DEFAULT_PROFILE_ID ? 'lifelog-cache.json' : `lifelog-cache-${profile.id}.json`;
+			const cache = new LifelogCache(this.app.vault.adapter, normalizePath(`${pluginDir}/${fileName}`));
+			await cache.load();
+			this.log(`Loaded ${cache.size} cached lifelogs for profile ${profile.name}`);
+			this.profileCaches.set(profile.id, cache);
+		}
+	}
+
+	getProfileCache(profile: LimitlessProfile): LifelogCache {
+		const cache = this.profileCaches.get(profile.id);
+		if (!cache) {
+			throw new Error(`The cache of profile ${profile.name} isn't loaded`);
+		}
+		return cache;
+	}
+
+	// Select the profile shown in the settings and used by the sync commands. A running job keeps
+	// working with its own profile.
+	async selectProfile(profile: LimitlessProfile): Promise<void> {
+		this.settings.activeProfileId = profile.id;
+		await this.saveSettings();
+	}
+
+	async addProfile(name: string): Promise<LimitlessProfile> {
+		const profile = normalizeProfile({
+			id: createProfileId(name, this.settings.profiles),
+			name,
+			outputFolder: `Limitless ${sanitizeFileName(name)}`
+		}, DEFAULT_PROFILE);
+		this.settings.profiles.push(profile);
+		await this.loadProfileCaches();
+		await this.saveSettings();
+		return profile;
+	}
+
+	// Remove a profile and empty its cache; its notes stay in the vault. The last profile can't be removed.
+	async removeProfile(profile: LimitlessProfile): Promise<boolean> {
+		if (this.settings.profiles.length <= 1) {
+			new Notice('The last Limitless profile can\'t be removed.');
+			return false;
+		}
+		if (this.isSyncing || this.profileSyncQueue.length > 0) {
+			new Notice('Profiles can\'t be removed while a sync is running.');
+			return false;
+		}
+		
+		this.settings.profiles = this.settings.profiles.filter(other => other !== profile);
+		this.settings.activeProfileId = this.getSelectedProfile().id;
+		this.syncErrors.delete(profile.id);
+		const cache = this.profileCaches.get(profile.id);
+		if (cache) {
+			cache.clear();
+			await cache.save();
+			this.profileCaches.delete(profile.id);
+		}
+		await this.saveSettings();
+		return true;
+	}
+
+	// Sync every enabled profile with an API key, one after another. Cancelling the running sync also
+	// skips the profiles that haven't synced yet.
+	async syncAllProfiles(): Promise<void> {
+		if (this.isSyncing || this.profileSyncQueue.length > 0) {
+			new Notice('A sync operation is already in progress. Please wait for it to complete or cancel it.');
+			return;
+		}
+		
+		this.profileSyncQueue = this.settings.profiles.filter(profile => profile.enabled && profile.apiKey);
+		if (this.profileSyncQueue.length === 0) {
+			// Let the sync report the missing API key
+			await this.syncLifelogs();
+			return;
+		}
+		
+		try {
+			while (this.profileSyncQueue.length > 0) {
+				const profile = this.profileSyncQueue.shift() as LimitlessProfile;
+				await this.syncLifelogs(false, undefined, { profile });
+			}
+		} finally {
+			this.profileSyncQueue = [];
+		}
+	}
+
+	getRateLimiterOptions(): { maxConcurrent: number; requestsPerMinute: number } {
+		return {
+			maxConcurrent: this.settings.maxConcurrentRequests,
+			requestsPerMinute: this.settings.requestsPerMinute
+		};
+	}
+
+	// Progress text with the request metrics of the running sync
+	getProgressText(): string {
+		if (!this.isSyncing || this.rateLimiter.getMetrics().requests === 0) {
+			return this.syncProgressText;
+		}
+		return `${this.syncProgressText} (${this.rateLimiter.describe()})`;
+	}
+
+	updateStatusBar(): void {
+		if (!this.statusBarEl) return;
+		
+		const { text, tooltip } = getStatusBarText({
+			isSyncing: this.isSyncing,
+			progress: this.syncProgress,
+			progressText: this.getProgressText(),
+			lastSyncedAt: this.profile.lastSyncCompletedAt,
+			lastError: this.lastSyncError,
+			profileName: this.getProfileLabel()
+		});
+		this.statusBarEl.setText(text);
+		this.statusBarEl.setAttribute('aria-label', tooltip);
+		this.statusBarEl.setAttribute('title', tooltip);
+	}
+
+	showStatusBarMenu(event: MouseEvent): void {
+		const menu = new Menu();
+		
+		menu.addItem(item => item
+			.setTitle('Sync now')
+			.setIcon('sync')
+			.onClick(() => this.syncAllProfiles()));
+		
+		if (this.isSyncing) {
+			menu.addItem(item => item
+				.setTitle('Cancel sync')
+				.setIcon('x')
+				.onClick(() => this.cancelOngoingSync()));
+		}
+		
+		menu.addItem(item => item
+			.setTitle('Sync history')
+			.setIcon('history')
+			.onClick(() => this.openSyncHistory()));
+		
+		menu.addItem(item => item
+			.setTitle('Open log')
+			.setIcon('file-text')
+			.onClick(() => new SyncLogModal(this.app, [...this.logEntries]).open()));
+		
+		menu.showAtMouseEvent(event);
+	}
+
 	initializeSyncInterval() {
 		// Clear existing interval if it exists
 		if (this.syncIntervalId) {
@@ -165,7 +631,7 @@ export default class LimitlessPlugin extends Plugin {
 		const scheduleNextSync = () => {
 			this.syncIntervalId = window.setTimeout(async () => {
 				this.log('Running scheduled sync...');
-				await this.syncLifelogs();
+				await this.syncAllProfiles();
 				// Schedule the next sync after this one completes
 				this.syncIntervalId = null;
 				scheduleNextSync();
@@ -177,8 +643,12 @@ export default class LimitlessPlugin extends Plugin {
 	}
 
 	async ensureOutputFolder(): Promise<TFolder> {
-		const folderPath = normalizePath(this.settings.outputFolder);
-		this.log('Ensuring output folder exists:', folderPath);
+		return this.ensureFolder(this.profile.outputFolder);
+	}
+
+	async ensureFolder(path: string): Promise<TFolder> {
+		const folderPath = normalizePath(path);
+		this.log('Ensuring folder exists:', folderPath);
 		
 		let folder = this.app.vault.getAbstractFileByPath(folderPath);
 		this.log('Folder exists?', !!folder);
@@ -201,18 +671,43 @@ export default class LimitlessPlugin extends Plugin {
 				}
 			}
 		} else if (!(folder instanceof TFolder)) {
-			console.error(`${folderPath} exists but is not a folder`);
+			this.logError(`${folderPath} exists but is not a folder`);
 			throw new Error(`${folderPath} exists but is not a folder`);
 		}
 		
 		// Return the folder - we know it's a TFolder because of the instanceof check above
-		return folder;
+		return folder as TFolder;
+	}
+
+	// The configured IANA timezone, falling back to the system timezone
+	getTimezone(): string {
+		const timezone = this.settings.timezone.trim();
+		return timezone && isValidTimezone(timezone) ? timezone : getSystemTimezone();
 	}
 
-	async getDailyNotePath(date: Date): Promise<string> {
-		const folder = await this.ensureOutputFolder();
-		const fileName = `${format(date, 'yyyy-MM-dd')}.md`;
-		const filePath = normalizePath(`${folder.path}/${fileName}`);
+	// Get the user's daily note settings if the plugin is configured to write into them. Daily notes have
+	// one location, so only the first profile writes into them; the others keep using their output folder.
+	getDailyNotesConfig(profile: LimitlessProfile = this.profile): DailyNotesConfig | null {
+		if (!this.settings.useDailyNotesSettings || profile !== this.settings.profiles[0]) return null;
+		
+		const config = getDailyNotesConfig(this.app);
+		if (!config) {
+			this.log('Daily Notes settings requested but neither Daily Notes nor Periodic Notes is enabled; using the output folder');
+		}
+		return config;
+	}
+
+	async getDailyNotePath(date: Date, profile: LimitlessProfile = this.profile): Promise<string> {
+		const dailyNotes = this.getDailyNotesConfig(profile);
+		
+		let filePath: string;
+		if (dailyNotes) {
+			filePath = getDailyNotesPath(dailyNotes, date);
+		} else {
+			const fileName = `${format(date, this.settings.notePathFormat || DEFAULT_SETTINGS.notePathFormat)}.md`;
+			filePath = normalizePath(`${profile.outputFolder}/${fileName}`);
+		}
+		
 		this.log('Daily note path:', filePath);
 		return filePath;
 	}
@@ -224,254 +719,510 @@ export default class LimitlessPlugin extends Plugin {
 		return file instanceof TFile ? file : null;
 	}
 
-	async createOrAppendToDailyNote(date: Date, content: string, forceOverwrite: boolean = false): Promise<void> {
-		// First ensure the output folder exists
-		await this.ensureOutputFolder();
+	// Initial content for a new note in the user's daily notes, based on their daily note template
+	async getDailyNotesTemplateContent(dailyNotes: DailyNotesConfig, date: Date): Promise<string> {
+		if (!dailyNotes.template) return '';
 		
-		// Now get the file path and check if the file exists
-		const filePath = await this.getDailyNotePath(date);
-		const file = await this.getDailyNote(date);
-		
-		// Always overwrite the file as requested
-		if (file) {
-			this.log('Overwriting existing file:', filePath);
-			await this.app.vault.modify(file, content);
-			this.log('File overwritten successfully');
-		} else {
-			this.log('Creating new file:', filePath);
-			// Create new file
-			const initialContent = content;
-			this.log('Initial content length:', initialContent.length);
-			try {
-				// Create the file
-				const newFile = await this.app.vault.create(filePath, initialContent);
-				this.log('File created successfully:', newFile.path);
-			} catch (createError) {
-				console.error('Error creating file:', createError);
-				throw createError;
-			}
-		}
+		const templatePath = dailyNotes.template.endsWith('.md') ? dailyNotes.template : `${dailyNotes.template}.md`;
+		const template = await this.loadTemplate(templatePath, '');
+		return applyDailyNoteTemplate(template, dailyNotes, date);
 	}
 
-	async fetchLifelogs(since: string | null = null, date: string | null = null, cursor: string | null = null, retryCount: number = 0): Promise<LifelogsResponse> {
-		// Maximum number of retries for server errors
-		const MAX_RETRIES = 5; // Increased from 3 to 5 for better handling of timeouts
-		// Base delay for exponential backoff (in milliseconds)
-		const BASE_DELAY = 2000; // Increased from 1000 to 2000 for more spacing between retries
-		
-		// Create a request ID for tracking
-		const requestId = Math.random().toString(36).substring(2, 15);
-		
-		// Create an AbortController for this request (not used directly with requestUrl but for tracking)
-		const controller = new AbortController();
-		controller['requestId'] = requestId;
+	async createOrAppendToDailyNote(date: Date, content: string, token: CancellationToken, forceOverwrite: boolean = false, frontmatter: Record<string, any> | null = null): Promise<string> {
+		token.throwIfCancelled();
 		
-		// Add to active requests list
-		this.activeFetchRequests.push(controller);
+		// Get the file path and make sure its folder exists
+		const dailyNotes = this.getDailyNotesConfig();
+		const filePath = await this.getDailyNotePath(date);
+		const parentPath = filePath.substring(0, filePath.lastIndexOf('/'));
+		if (parentPath) {
+			await this.ensureFolder(parentPath);
+		}
 		
-		try {
-			// Check if sync has been cancelled
-			if (this.cancelSync) {
-				throw new Error('Sync cancelled by user');
-			}
-			
-			// Start building the URL with required parameters
-			let url = `${this.settings.apiUrl}/lifelogs?includeMarkdown=true&sort=desc`;
-
-			// Add limit parameter (API has a max of 10 per request)
-			url += '&limit=10';
-			
-			// Add timezone parameter if enabled
-			if (this.settings.useSystemTimezone) {
-				const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
-				url += `&timezone=${encodeURIComponent(timezone)}`;
-				this.log('Using timezone for API request:', timezone);
-			}
-			
-			// Add date parameter if provided (for day-by-day sync)
-			if (date) {
-				url += `&date=${encodeURIComponent(date)}`;
-				this.log('Fetching lifelogs for specific date:', date);
-			}
-			// Otherwise, if we have a last sync timestamp, only fetch newer entries
-			else if (since) {
-				url += `&start=${encodeURIComponent(since)}`;
-				this.log('Fetching lifelogs since:', since);
-			}
-			
-			// Add cursor for pagination if provided
-			if (cursor) {
-				url += `&cursor=${encodeURIComponent(cursor)}`;
-				this.log('Using pagination cursor:', cursor);
-			}
+		// Parallel day workers can touch the same note, e.g. for lifelogs that run past midnight
+		return this.withNoteLock(filePath, async () => {
+			const file = await this.getDailyNote(date);
 			
-			this.log('Fetching lifelogs from URL:', url, retryCount > 0 ? `(Retry ${retryCount}/${MAX_RETRIES})` : '');
-
-			// Check again if sync has been cancelled before making the request
-			if (this.cancelSync) {
-				throw new Error('Sync cancelled by user');
-			}
+			if (file) {
+				const existing = await this.app.vault.read(file);
+				let updated: string;
 			
-			// Use Obsidian's requestUrl which handles CORS properly
-			const response = await requestUrl({
-				url: url,
-				method: 'GET',
-				headers: {
-					'X-API-Key': `${this.settings.apiKey}`,
-					'Content-Type': 'application/json'
+				// Notes that belong to the user's daily notes are never rewritten as a whole
+				if (forceOverwrite && !dailyNotes) {
+					// Force sync owns the whole file and rewrites it from scratch, keeping only the user's frontmatter keys
+					this.log('Overwriting existing file:', filePath);
+					updated = this.keepUserFrontmatter(existing, wrapManagedRegion(content) + '\n');
+				} else {
+					// Only replace the managed region, leaving the user's own notes untouched
+					this.log('Merging into managed region of existing file:', filePath);
+					updated = mergeManagedRegion(existing, content);
 				}
-			});
-			
-			// Check if sync was cancelled during the request
-			if (this.cancelSync) {
-				throw new Error('Sync cancelled during request');
-			}
-			
-			// Remove from active requests list
-			const index = this.activeFetchRequests.indexOf(controller);
-			if (index > -1) {
-				this.activeFetchRequests.splice(index, 1);
-			}
-			
-			this.log('Response status:', response.status);
-			const responseData = response.json as LifelogsResponse;
-			
-			// Log pagination information
-			if (responseData.meta?.lifelogs?.nextCursor) {
-				this.log('Next cursor available:', responseData.meta.lifelogs.nextCursor);
-				this.log('Fetched', responseData.meta.lifelogs.count, 'lifelogs');
-			} else {
-				this.log('No more pages available');
-			}
-
-			return responseData;
-		} catch (error) {
-			// Remove from active requests list
-			const index = this.activeFetchRequests.indexOf(controller);
-			if (index > -1) {
-				this.activeFetchRequests.splice(index, 1);
-			}
 			
-			// Check if this is a cancellation
-			if (error.message === 'Sync cancelled by user' || error.message === 'Sync cancelled during request') {
-				this.log('Request was cancelled');
-				throw new Error('Sync cancelled');
-			}
-			
-			console.error('Error fetching lifelogs:', error);
-			
-			// Check for 401 Unauthorized error
-			if (error.status === 401) {
-				throw new Error('Authentication failed. Please check your API key in the Limitless settings.');
-			}
-			
-			// If sync has been cancelled, don't retry
-			if (this.cancelSync) {
-				throw new Error('Sync cancelled');
-			}
+				if (frontmatter) {
+					updated = applyNoteFrontmatter(existing, updated, frontmatter);
+				}
 			
-			// Handle 5xx server errors with retries - specifically handle 504 Gateway Timeout
-			if (error.status >= 500 && error.status < 600) {
-				if (retryCount < MAX_RETRIES) {
-					// For 504 Gateway Timeout, use a longer delay
-					const isTimeout = error.status === 504;
-					const baseDelayForError = isTimeout ? BASE_DELAY * 2 : BASE_DELAY;
-					const delay = baseDelayForError * Math.pow(2, retryCount) + Math.random() * 1000;
-					
-					this.log(`Server error (${error.status}${isTimeout ? ' Gateway Timeout' : ''}). Retrying in ${Math.round(delay/1000)}s...`);
-					this.syncProgressText = `Server error (${error.status}). Retrying in ${Math.round(delay/1000)}s...`;
-					
-					await new Promise(resolve => setTimeout(resolve, delay));
-					return this.fetchLifelogs(since, date, cursor, retryCount + 1);
+				if (updated !== existing) {
+					// The sync may have been cancelled while waiting for the lock
+					token.throwIfCancelled();
+					await this.app.vault.modify(file, updated);
+					this.log('File updated successfully');
 				} else {
-					this.log(`Maximum retries (${MAX_RETRIES}) reached for server error.`);
-					throw new Error(`Server error after ${MAX_RETRIES} retries: ${error.status} ${error.message}`);
+					this.log('File unchanged, skipping write');
+				}
+				return file.path;
+			} else {
+				this.log('Creating new file:', filePath);
+				// Create new file, starting from the user's daily note template if we write into their daily notes
+				let initialContent = dailyNotes
+					? mergeManagedRegion(await this.getDailyNotesTemplateContent(dailyNotes, date), content)
+					: wrapManagedRegion(content) + '\n';
+				if (frontmatter) {
+					initialContent = applyNoteFrontmatter(null, initialContent, frontmatter);
+				}
+				this.log('Initial content length:', initialContent.length);
+				try {
+					// Create the file
+					token.throwIfCancelled();
+					const newFile = await this.app.vault.create(filePath, initialContent);
+					this.log('File created successfully:', newFile.path);
+					return newFile.path;
+				} catch (createError) {
+					this.logError('Error creating file:', createError);
+					throw createError;
 				}
 			}
-			
-			// Handle 429 Too Many Requests with exponential backoff
-			if (error.status === 429) {
-				// Get retry-after header if available, otherwise use exponential backoff
-				let retryAfter = error.headers?.['retry-after'] ? parseInt(error.headers['retry-after']) * 1000 : BASE_DELAY * Math.pow(2, retryCount);
-				
-				// Cap the maximum delay at 60 seconds
-				retryAfter = Math.min(retryAfter, 60000);
-				
-				this.log(`Rate limited (429). Waiting for ${retryAfter}ms before retrying...`);
-				this.syncProgressText = `Rate limited. Waiting ${Math.round(retryAfter/1000)}s before retrying...`;
-				
-				await new Promise(resolve => setTimeout(resolve, retryAfter));
-				return this.fetchLifelogs(since, date, cursor, retryCount + 1);
-			}
-			
-			// For other errors, just throw
-			throw error;
-		}
+		});
 	}
 
-	// Helper method to extract timestamp from a lifelog
-	getLifelogTimestamp(lifelog: Lifelog): string {
-		// Filter content blocks that have startTime and sort them
-		let startTime: string;
+	// Run a read-modify-write of a note once earlier writes to the same note have finished
+	async withNoteLock<T>(path: string, write: () => Promise<T>): Promise<T> {
+		const previous = this.noteLocks.get(path) || Promise.resolve();
+		const current = previous.then(write, write);
+		const settled = current.catch(() => undefined);
+		this.noteLocks.set(path, settled);
 		
-		if (lifelog.contents && lifelog.contents.length > 0) {
-			// Filter out content blocks without startTime
-			const contentWithTime = lifelog.contents.filter(content => !!content.startTime);
-			this.log('Content blocks with time:', contentWithTime.length);
-			
-			if (contentWithTime.length > 0) {
-				// Sort content blocks by startTime (oldest first)
-				contentWithTime.sort((a, b) => {
-					return new Date(a.startTime).getTime() - new Date(b.startTime).getTime();
-				});
-				
-				// Use the earliest startTime for the daily note
-				startTime = contentWithTime[0].startTime;
-				this.log('Using earliest content startTime:', startTime);
-			} else {
-				// If no content blocks have startTime, use current time
-				startTime = new Date().toISOString();
-				this.log('No content blocks with startTime, using current time:', startTime);
+		try {
+			return await current;
+		} finally {
+			if (this.noteLocks.get(path) === settled) {
+				this.noteLocks.delete(path);
 			}
-		} else {
-			// If no content blocks at all, use current time
-			startTime = new Date().toISOString();
-			this.log('No content blocks found, using current time:', startTime);
 		}
-		
-		return startTime;
 	}
 
-	// Fetch all lifelogs for a specific day with pagination
-	async fetchAllLifelogsForDay(date: string, forceOverwrite: boolean): Promise<Lifelog[]> {
-		// Check if already cancelled before starting
-		if (this.cancelSync) {
-			this.log(`Skipping day ${date} due to cancellation`);
-			return [];
+	// Carry the frontmatter of an existing note over to content that replaces it
+	keepUserFrontmatter(existing: string, replacement: string): string {
+		const userFrontmatter = splitFrontmatter(existing).frontmatter;
+		if (!userFrontmatter || Object.keys(userFrontmatter).length === 0) {
+			return replacement;
 		}
-		
+		return mergeFrontmatter(replacement, userFrontmatter);
+	}
+
+	// Metadata for the note of a single lifelog
+	buildLifelogNoteFrontmatter(lifelog: Lifelog): Record<string, any> {
+		if (!this.settings.addFrontmatter) {
+			return { [LIFELOG_ID_KEY]: lifelog.id };
+		}
+		
+		const { start } = getLifelogTimeRange(lifelog);
+		const frontmatter = buildLifelogsFrontmatter(start ? getZonedDay(start, this.getTimezone()) : '', [lifelog], this.manifest.version, this.getTimezone(), this.getSpeakerNameResolver());
+		delete frontmatter['limitless-ids'];
+		delete frontmatter['limitless-count'];
+		if (this.getProfileLabel()) {
+			frontmatter[PROFILE_KEY] = this.getProfileLabel();
+		}
+		return Object.assign({ [LIFELOG_ID_KEY]: lifelog.id, 'limitless-title': lifelog.title || '' }, frontmatter);
+	}
+
+	// Read a template file from the vault, falling back to the built-in template
+	async loadTemplate(templatePath: string, fallback: string): Promise<string> {
+		if (!templatePath) return fallback;
+		
+		const file = this.app.vault.getAbstractFileByPath(normalizePath(templatePath));
+		if (!(file instanceof TFile)) {
+			this.log('Template file not found, using built-in template:', templatePath);
+			return fallback;
+		}
+		
+		return await this.app.vault.read(file);
+	}
+
+	// Mapped names go through redaction too, so a redacted name doesn't come back through its mapping
+	getSpeakerOptions(): SpeakerOptions {
+		const redactor = this.getRedactor();
+		const redactName = (name: string) => redactor.isActive ? redactor.redactText(name, {}) : name;
+		return {
+			userName: redactName(this.settings.userSpeakerName),
+			mappings: this.settings.speakerMappings.map(mapping => ({ speaker: mapping.speaker, name: redactName(mapping.name) })),
+			linkSpeakers: this.settings.linkSpeakers,
+			peopleFolder: this.settings.peopleFolder
+		};
+	}
+
+	// Real speaker names (never links), for frontmatter
+	getSpeakerNameResolver(): (node: ContentNode) => string | null {
+		const options = this.getSpeakerOptions();
+		return node => resolveSpeakerName(node, options);
+	}
+
+	buildLifelogTemplateContext(lifelog: Lifelog, notePath?: string, span: LifelogSpan = {}): LifelogTemplateContext {
+		const { start, end } = getLifelogTimeRange(lifelog);
+		const title = lifelog.title || '';
+		const timezone = this.getTimezone();
+		const speakerOptions = this.getSpeakerOptions();
+		const speakerLabel = (node: ContentNode) => formatSpeakerLabel(node, speakerOptions);
+		const timestampLabel = createTimestampLabeler({
+			style: this.settings.timestampStyle,
+			granularity: this.settings.timestampGranularity,
+			intervalMinutes: this.settings.timestampIntervalMinutes,
+			timezone
+		}, start);
+		
+		return {
+			id: lifelog.id,
+			title,
+			date: start ? getZonedDay(start, timezone) : '',
+			startTime: start ? formatZonedTime(start, timezone) : '',
+			endTime: end ? formatZonedTime(end, timezone) : '',
+			duration: start && end ? formatDuration(end.getTime() - start.getTime()) : '',
+			speakers: getLifelogSpeakers(lifelog, speakerLabel),
+			body: span.reference ? '' : renderLifelogBody(lifelog, { speakerLabel, timestampLabel }),
+			link: notePath ? `[[${notePath.replace(/\.md$/, '')}|${title.replace(/[|\]]/g, ' ').trim() || lifelog.id}]]` : '',
+			continuedFrom: span.continuedFrom || '',
+			continuesOn: span.continuesOn || '',
+			reference: !!span.reference,
+			profile: this.getProfileLabel() || ''
+		};
+	}
+
+	reportTemplateError(error: Error): void {
+		// A broken user template shouldn't stop the sync
+		this.logError('Error rendering Limitless template:', error);
+		if (!this.templateErrorReported) {
+			this.templateErrorReported = true;
+			new Notice(`Limitless template error: ${error.message}. Using the default templates.`);
+		}
+	}
+
+	// Render the full content of a daily note from the day and lifelog templates.
+	// When notePaths is given (one-note-per-lifelog mode) the entries link to the lifelog notes instead.
+	async renderDailyNoteContent(date: Date, lifelogs: Lifelog[], notePaths?: Map<string, string>, spans: Map<string, LifelogSpan> = new Map()): Promise<string> {
+		const dayTemplate = await this.loadTemplate(this.settings.dailyNoteTemplatePath, DEFAULT_DAY_TEMPLATE);
+		const defaultEntryTemplate = notePaths ? DEFAULT_INDEX_ENTRY_TEMPLATE : DEFAULT_LIFELOG_TEMPLATE;
+		const entryTemplate = notePaths ? DEFAULT_INDEX_ENTRY_TEMPLATE : await this.loadTemplate(this.settings.lifelogTemplatePath, DEFAULT_LIFELOG_TEMPLATE);
+		
+		const render = (day: string, entry: string): string => {
+			const contexts = lifelogs.map(lifelog => this.buildLifelogTemplateContext(lifelog, notePaths?.get(lifelog.id), spans.get(lifelog.id)));
+			const dayContext: DayTemplateContext = {
+				date: format(date, 'yyyy-MM-dd'),
+				count: lifelogs.length,
+				lifelogs: contexts,
+				profile: this.getProfileLabel() || '',
+				entries: contexts.map(context => tidyRenderedTemplate(renderTemplate(entry, context))).join(notePaths ? '\n' : '\n\n')
+			};
+			return tidyRenderedTemplate(renderTemplate(day, dayContext)) + '\n';
+		};
+		
+		try {
+			return render(dayTemplate, entryTemplate);
+		} catch (error) {
+			this.reportTemplateError(error);
+			return render(DEFAULT_DAY_TEMPLATE, defaultEntryTemplate);
+		}
+	}
+
+	// Render the content of a per-lifelog note from the lifelog template
+	async renderLifelogNoteContent(lifelog: Lifelog): Promise<string> {
+		const template = await this.loadTemplate(this.settings.lifelogTemplatePath, DEFAULT_LIFELOG_TEMPLATE);
+		const context = this.buildLifelogTemplateContext(lifelog);
+		
+		try {
+			return tidyRenderedTemplate(renderTemplate(template, context)) + '\n';
+		} catch (error) {
+			this.reportTemplateError(error);
+			return tidyRenderedTemplate(renderTemplate(DEFAULT_LIFELOG_TEMPLATE, context)) + '\n';
+		}
+	}
+
+	getLifelogFolderPath(): string {
+		return normalizePath(`${this.profile.outputFolder}/${this.settings.lifelogFolder}`);
+	}
+
+	// Find existing per-lifelog notes by the lifelog id in their frontmatter
+	getLifelogNoteIndex(): Map<string, string> {
+		if (!this.lifelogNoteIndex) {
+			const folderPrefix = `${this.getLifelogFolderPath()}/`;
+			this.lifelogNoteIndex = new Map();
+			for (const file of this.app.vault.getMarkdownFiles()) {
+				if (!file.path.startsWith(folderPrefix)) continue;
+				const id = this.app.metadataCache.getFileCache(file)?.frontmatter?.[LIFELOG_ID_KEY];
+				if (id) {
+					this.lifelogNoteIndex.set(String(id), file.path);
+				}
+			}
+			this.log(`Indexed ${this.lifelogNoteIndex.size} existing lifelog notes`);
+		}
+		return this.lifelogNoteIndex;
+	}
+
+	// Note path for a lifelog, named from its start time and title
+	getLifelogNotePath(lifelog: Lifelog): string {
+		const { start } = getLifelogTimeRange(lifelog);
+		const prefix = start ? `${getZonedDay(start, this.getTimezone())} ${formatZonedTime(start, this.getTimezone()).replace(':', '')}` : lifelog.id;
+		const title = sanitizeFileName(lifelog.title || '');
+		let notePath = normalizePath(`${this.getLifelogFolderPath()}/${title ? `${prefix} ${title}` : prefix}.md`);
+		
+		// Don't clobber a different lifelog that happens to share the same start time and title
+		for (const [id, path] of this.getLifelogNoteIndex()) {
+			if (path === notePath && id !== lifelog.id) {
+				notePath = notePath.replace(/\.md$/, ` (${lifelog.id.slice(0, 8)}).md`);
+				break;
+			}
+		}
+		
+		return notePath;
+	}
+
+	// Create or update the note of a single lifelog, returning its path
+	async writeLifelogNote(lifelog: Lifelog, token: CancellationToken, forceOverwrite: boolean = false): Promise<string> {
+		token.throwIfCancelled();
+		await this.ensureFolder(this.getLifelogFolderPath());
+		
+		const index = this.getLifelogNoteIndex();
+		const notePath = this.getLifelogNotePath(lifelog);
+		const content = await this.renderLifelogNoteContent(lifelog);
+		token.throwIfCancelled();
+		
+		// Prefer the note already keyed to this id, wherever it is
+		const indexedPath = index.get(lifelog.id);
+		let file = indexedPath ? this.app.vault.getAbstractFileByPath(indexedPath) : null;
+		if (!(file instanceof TFile)) {
+			file = this.app.vault.getAbstractFileByPath(notePath);
+		}
+		
+		if (file instanceof TFile) {
+			// Rename the note if the lifelog's title (or start time) changed upstream
+			if (file.path !== notePath && !this.app.vault.getAbstractFileByPath(notePath)) {
+				this.log('Renaming lifelog note:', file.path, '->', notePath);
+				await this.app.fileManager.renameFile(file, notePath);
+			}
+			
+			const existing = await this.app.vault.read(file);
+			const updated = applyNoteFrontmatter(
+				existing,
+				forceOverwrite ? this.keepUserFrontmatter(existing, wrapManagedRegion(content) + '\n') : mergeManagedRegion(existing, content),
+				this.buildLifelogNoteFrontmatter(lifelog)
+			);
+			if (updated !== existing) {
+				token.throwIfCancelled();
+				await this.app.vault.modify(file, updated);
+			}
+			index.set(lifelog.id, file.path);
+			return file.path;
+		}
+		
+		this.log('Creating lifelog note:', notePath);
+		const newFile = await this.app.vault.create(notePath, applyNoteFrontmatter(null, wrapManagedRegion(content) + '\n', this.buildLifelogNoteFrontmatter(lifelog)));
+		index.set(lifelog.id, newFile.path);
+		return newFile.path;
+	}
+
+	// Parameters every lifelogs request is sent with: the configured timezone, so dates and start/end
+	// windows are interpreted in it, and no server-rendered markdown, since it's rendered locally from
+	// the content tree. Lifelogs are requested in the entry order of the notes, so a day's lifelogs
+	// arrive ready to write.
+	getLifelogsParams(): GetLifelogsParams {
+		return {
+			timezone: this.getTimezone(),
+			direction: this.settings.ascendingOrder ? 'asc' : 'desc',
+			includeMarkdown: false,
+			includeHeadings: this.settings.includeHeadings,
+			limit: Math.min(Math.max(1, this.settings.pageSize), MAX_PAGE_SIZE)
+		};
+	}
+
+	// API client for one sync job. Its requests are paced by the shared rate limiter, retried on server
+	// errors and rate limits, and dropped once the token is cancelled.
+	createApiClient(token: CancellationToken): LimitlessClient {
+		return new LimitlessClient({
+			apiUrl: this.profile.apiUrl,
+			apiKey: this.profile.apiKey,
+			request: request => this.sendApiRequest(request, token)
+		});
+	}
+
+	// Send one API request for the client. Cancelling the token drops the request if it's still waiting in
+	// the rate limiter and aborts retry waits; requestUrl itself can't be aborted, so a response that arrives
+	// after the cancel is discarded.
+	async sendApiRequest(request: RequestUrlParam, token: CancellationToken, retryCount: number = 0): Promise<RequestUrlResponse> {
+		// Maximum number of retries for server errors
+		const MAX_RETRIES = 5; // Increased from 3 to 5 for better handling of timeouts
+		// Base delay for exponential backoff (in milliseconds)
+		const BASE_DELAY = 2000; // Increased from 1000 to 2000 for more spacing between retries
+		
+		// Check if sync has been cancelled
+		token.throwIfCancelled();
+		this.log('Fetching lifelogs from URL:', request.url, retryCount > 0 ? `(Retry ${retryCount}/${MAX_RETRIES})` : '');
+
+		let response: RequestUrlResponse;
+		try {
+			// Use Obsidian's requestUrl which handles CORS properly, paced by the shared rate limiter
+			response = await this.rateLimiter.schedule(() => requestUrl(request), token);
+		} catch (error) {
+			// Check if this is a cancellation
+			if (error instanceof SyncCancelledError || token.isCancelled) {
+				this.log('Request was cancelled');
+				throw new SyncCancelledError();
+			}
+			this.logError('Error fetching lifelogs:', error);
+			throw error;
+		}
+		
+		// Check if sync was cancelled during the request
+		if (token.isCancelled) {
+			this.log('Request was cancelled');
+			throw new SyncCancelledError();
+		}
+		
+		this.log('Response status:', response.status);
+		
+		// Check for 401 Unauthorized error
+		if (response.status === 401) {
+			throw new Error('Authentication failed. Please check your API key in the Limitless settings.');
+		}
+		
+		// Handle 5xx server errors with retries - specifically handle 504 Gateway Timeout
+		if (response.status >= 500 && response.status < 600) {
+			if (retryCount < MAX_RETRIES) {
+				// For 504 Gateway Timeout, use a longer delay
+				const isTimeout = response.status === 504;
+				const baseDelayForError = isTimeout ? BASE_DELAY * 2 : BASE_DELAY;
+				const delay = baseDelayForError * Math.pow(2, retryCount) + Math.random() * 1000;
+				
+				this.log(`Server error (${response.status}${isTimeout ? ' Gateway Timeout' : ''}). Retrying in ${Math.round(delay/1000)}s...`);
+				this.syncProgressText = `Server error (${response.status}). Retrying in ${Math.round(delay/1000)}s...`;
+				
+				if (this.currentSyncRun) this.currentSyncRun.retries++;
+				await sleep(delay, token);
+				return this.sendApiRequest(request, token, retryCount + 1);
+			} else {
+				this.log(`Maximum retries (${MAX_RETRIES}) reached for server error.`);
+				throw new Error(`Server error after ${MAX_RETRIES} retries: ${response.status}`);
+			}
+		}
+		
+		// Handle 429 Too Many Requests by pausing all requests, not just this one
+		if (response.status === 429) {
+			if (retryCount >= MAX_RETRIES) {
+				this.log(`Maximum retries (${MAX_RETRIES}) reached for rate limiting.`);
+				throw new LimitlessApiError(response.status, response.headers, `Rate limited after ${MAX_RETRIES} retries`);
+			}
+			
+			// Get retry-after header if available, otherwise use exponential backoff
+			let retryAfter = response.headers['retry-after'] ? parseInt(response.headers['retry-after']) * 1000 : BASE_DELAY * Math.pow(2, retryCount);
+			
+			// Cap the maximum delay at 60 seconds
+			retryAfter = Math.min(retryAfter || BASE_DELAY, 60000);
+			
+			this.log(`Rate limited (429). Pausing all requests for ${retryAfter}ms before retrying...`);
+			this.syncProgressText = `Rate limited. Waiting ${Math.round(retryAfter/1000)}s before retrying...`;
+			
+			if (this.currentSyncRun) this.currentSyncRun.retries++;
+			// The retry waits in the rate limiter until the pause is over
+			this.rateLimiter.backOff(retryAfter);
+			return this.sendApiRequest(request, token, retryCount + 1);
+		}
+		
+		// Other errors are reported by the client
+		return response;
+	}
+
+	// Helper method to extract timestamp from a lifelog
+	getLifelogTimestamp(lifelog: Lifelog): string {
+		// Filter content blocks that have startTime and sort them
+		let startTime: string;
+		
+		if (lifelog.contents && lifelog.contents.length > 0) {
+			// Filter out content blocks without startTime
+			const contentWithTime = lifelog.contents.filter(content => !!content.startTime);
+			this.trace('Content blocks with time:', contentWithTime.length);
+			
+			if (contentWithTime.length > 0) {
+				// Sort content blocks by startTime (oldest first)
+				contentWithTime.sort((a, b) => {
+					return new Date(a.startTime as string).getTime() - new Date(b.startTime as string).getTime();
+				});
+				
+				// Use the earliest startTime for the daily note
+				startTime = contentWithTime[0].startTime as string;
+				this.trace('Using earliest content startTime:', startTime);
+			} else {
+				// If no content blocks have startTime, use current time
+				startTime = new Date().toISOString();
+				this.trace('No content blocks with startTime, using current time:', startTime);
+			}
+		} else {
+			// If no content blocks at all, use current time
+			startTime = new Date().toISOString();
+			this.trace('No content blocks found, using current time:', startTime);
+		}
+		
+		return startTime;
+	}
+
+	// Format a datetime the way the API expects for start/end: wall-clock time in the
+	// request timezone (YYYY-MM-DD HH:mm:SS), since offsets are ignored
+	formatApiDateTime(date: Date): string {
+		return formatZonedDateTime(date, this.getTimezone());
+	}
+
+	// The day (YYYY-MM-DD) a lifelog belongs to, based on its start time in the configured timezone
+	getLifelogDay(lifelog: Lifelog): string {
+		return getZonedDay(new Date(this.getLifelogTimestamp(lifelog)), this.getTimezone());
+	}
+
+	// Fetch all lifelogs in a datetime window, following pagination cursors
+	async fetchLifelogsInWindow(start: string, end: string | null, token: CancellationToken): Promise<Lifelog[]> {
 		const allLifelogs: Lifelog[] = [];
-		let cursor: string | null = null;
-		let hasMore = true;
 		let pageCount = 0;
 		
-		this.log(`Fetching all lifelogs for day: ${date}`);
-		// Don't update progress text here as we only want to track days
+		this.log(`Fetching all lifelogs from ${start} to ${end || 'now'}`);
 		
-		// First, collect all lifelogs for the day
-		while (hasMore && !this.cancelSync) {
+		const pages = this.createApiClient(token).getLifelogPages(Object.assign(this.getLifelogsParams(), { start, end: end || undefined }));
+		for await (const response of pages) {
 			pageCount++;
-			this.log(`Fetching page ${pageCount} for date ${date}`);
-			
-			// Fetch a page of lifelogs
-			const response = await this.fetchLifelogs(null, date, cursor);
 			
-			// Check if sync was cancelled during API call
-			if (this.cancelSync) {
-				this.log(`Sync cancelled during API call for date ${date}`);
-				break;
+			for (const lifelog of response.data.lifelogs) {
+				if ((lifelog.contents && lifelog.contents.length > 0) || lifelog.markdown) {
+					allLifelogs.push(lifelog);
+				} else {
+					this.log('Skipping lifelog with no content:', lifelog.id);
+				}
 			}
 			
+			this.syncProgressText = `Fetched ${allLifelogs.length} lifelogs (page ${pageCount})`;
+		}
+		
+		return allLifelogs;
+	}
+
+	// Fetch all lifelogs for a specific day with pagination. The day's notes are only rewritten if something
+	// changed upstream, unless rewrite is set (it is by default when overwriting). The notes of the lifelogs in
+	// alsoRewrite are rewritten even if they didn't change. Throws SyncCancelledError if the token is cancelled part way.
+	async fetchAllLifelogsForDay(date: string, token: CancellationToken, forceOverwrite: boolean, rewrite: boolean = forceOverwrite, alsoRewrite: string[] = []): Promise<Lifelog[]> {
+		const allLifelogs: Lifelog[] = [];
+		let pageCount = 0;
+		
+		this.log(`Fetching all lifelogs for day: ${date}`);
+		// Don't update progress text here as we only want to track days
+		
+		// First, collect all lifelogs for the day, a page at a time
+		const pages = this.createApiClient(token).getLifelogPages(Object.assign(this.getLifelogsParams(), { date }));
+		for await (const response of pages) {
+			pageCount++;
+			
 			// Process the lifelogs in this page
 			const lifelogs = response.data.lifelogs;
 			this.log(`Received ${lifelogs.length} lifelogs for date ${date}`);
@@ -479,264 +1230,738 @@ export default class LimitlessPlugin extends Plugin {
 			if (lifelogs.length > 0) {
 				// Add all lifelogs to our collection
 				for (const lifelog of lifelogs) {
-					if (lifelog.markdown) {
+					if ((lifelog.contents && lifelog.contents.length > 0) || lifelog.markdown) {
 						allLifelogs.push(lifelog);
 					} else {
-						this.log('Skipping lifelog with no markdown content');
+						this.log('Skipping lifelog with no content:', lifelog.id);
 					}
 				}
 				
 				// Update progress for fetched lifelogs
 				this.syncProgressText = `Fetched ${allLifelogs.length} lifelogs for date ${date} (page ${pageCount})`;
 			}
-			
-			// Check if sync was cancelled during processing
-			if (this.cancelSync) {
-				break;
+		}
+		
+		// Only process and write to file after all lifelogs have been fetched
+		token.throwIfCancelled();
+		
+		// Record what we fetched and work out what changed upstream since the last sync
+		const changes = this.lifelogCache.updateDay(date, allLifelogs);
+		const rewriteIds = new Set([...changes.added, ...changes.changed, ...alsoRewrite]);
+		this.log(`Changes for date ${date}: ${changes.added.length} new, ${changes.changed.length} changed, ${changes.unchanged.length} unchanged, ${changes.removed.length} deleted upstream`);
+		
+		try {
+			if (changes.removed.length > 0) {
+				await this.markDeletedLifelogNotes(changes.removed, token);
 			}
 			
-			// Check if there are more pages
-			cursor = response.meta?.lifelogs?.nextCursor || null;
-			hasMore = !!cursor;
-			
-			if (hasMore && !this.cancelSync) {
-				this.log(`More pages available for date ${date}, next cursor: ${cursor}`);
-			} else {
-				this.log(`No more pages for date ${date}`);
+			// Unchanged lifelogs whose notes still exist don't need to be written again
+			if (!rewrite && rewriteIds.size === 0 && changes.removed.length === 0 && this.lifelogNotesExist(filterLifelogs(allLifelogs, this.getLifelogFilterRules()).kept)) {
+				this.log(`No changes for date ${date}, skipping note updates`);
+			} else if (allLifelogs.length > 0 || changes.removed.length > 0) {
+				const written = await this.writeDayNotes(date, allLifelogs, token, forceOverwrite, rewrite ? null : rewriteIds);
+				if (!written) {
+					throw new Error(`Some notes for ${date} couldn't be written`);
+				}
 			}
+		} catch (error) {
+			// The cache already has the new lifelogs, so make sure the next sync writes the notes that were skipped
+			if (error instanceof SyncCancelledError) {
+				this.lifelogCache.invalidateDay(date);
+			}
+			throw error;
 		}
 		
-		// Only process and write to file after all lifelogs have been fetched
-		if (allLifelogs.length > 0 && !this.cancelSync) {
-			this.log(`Processing ${allLifelogs.length} lifelogs for date ${date}`);
+		this.log(`Total lifelogs fetched for date ${date}: ${allLifelogs.length}`);
+		return allLifelogs;
+	}
+	
+	// Whether every lifelog has been written to a note that still exists
+	lifelogNotesExist(lifelogs: Lifelog[]): boolean {
+		return lifelogs.every(lifelog => {
+			const notePath = this.lifelogCache.get(lifelog.id)?.notePath;
+			return !!notePath && this.app.vault.getAbstractFileByPath(notePath) instanceof TFile;
+		});
+	}
+
+	// Render and write the notes for a day's lifelogs. Only lifelogs in rewriteIds get their own
+	// note rewritten in one-note-per-lifelog mode (all of them when rewriteIds is null).
+	// Returns false if any note couldn't be written.
+	async writeDayNotes(date: string, allLifelogs: Lifelog[], token: CancellationToken, forceOverwrite: boolean, rewriteIds: Set<string> | null = null): Promise<boolean> {
+		this.log(`Processing ${allLifelogs.length} lifelogs for date ${date}`);
+		let success = true;
+		
+		// The daily note is named after the day the lifelogs were bucketed into, not their UTC timestamps
+		const noteDate = dayToDate(date);
+		
+		// Leave out lifelogs excluded by the filter rules. The cache still has them, so they come back
+		// with a re-render if the rules change.
+		const filterRules = this.getLifelogFilterRules();
+		const { kept: lifelogs, excluded } = filterLifelogs(allLifelogs, filterRules);
+		for (const { lifelog, reason } of excluded) {
+			this.log(`Skipping lifelog ${lifelog.id} (${reason})`);
+		}
+		
+		// Trim or link lifelogs that run past midnight and pick up the ones continuing from the previous day
+		const { lifelogs: shownLifelogs, spans } = await this.applyMidnightPolicy(date, lifelogs, filterRules);
+		
+		// Redact sensitive content from everything shown on this day
+		const redactor = this.getRedactor();
+		const redactionCounts: RedactionCounts = {};
+		const dayLifelogs = shownLifelogs.map(lifelog => {
+			const result = redactor.redactLifelog(lifelog);
+			addRedactionCounts(redactionCounts, result.counts);
+			return result.lifelog;
+		});
+		if (countRedactions(redactionCounts) > 0) {
+			this.log(`Redacted content for date ${date}:`, redactionCounts);
+			this.redactionReport.set(date, redactionCounts);
+		} else {
+			this.redactionReport.delete(date);
+		}
+		
+		// Order the lifelogs by timestamp: oldest first (ascending) or newest first (descending). Fetched days
+		// already arrive in this order; lifelogs merged from the cache or continuing from the previous day
+		// may not, and only then are they sorted.
+		const direction = this.settings.ascendingOrder ? 1 : -1;
+		const compareLifelogs = (a: Lifelog, b: Lifelog) => direction * (new Date(this.getLifelogTimestamp(a)).getTime() - new Date(this.getLifelogTimestamp(b)).getTime());
+		const inOrder = dayLifelogs.every((lifelog, index) => index === 0 || compareLifelogs(dayLifelogs[index - 1], lifelog) <= 0);
+		if (!inOrder) {
+			this.log(`Sorting lifelogs for date ${date} ${this.settings.ascendingOrder ? 'oldest' : 'newest'} first`);
+		}
+		const sortedLifelogs = inOrder ? dayLifelogs : [...dayLifelogs].sort(compareLifelogs);
+		
+		// Don't create a note for a day with nothing left to show after filtering
+		if (sortedLifelogs.length === 0 && !(await this.getDailyNote(noteDate))) {
+			this.log(`No lifelogs left to write for date ${date}`);
+			return success;
+		}
+		
+		// In one-note-per-lifelog mode, write each lifelog to its own note first so the daily index can link to them
+		let notePaths: Map<string, string> | undefined;
+		if (this.settings.outputMode === 'lifelog') {
+			notePaths = new Map();
+			for (const lifelog of sortedLifelogs) {
+				// Keep the existing note of a lifelog that didn't change upstream, or that belongs to the previous day
+				const cachedPath = this.lifelogCache.get(lifelog.id)?.notePath;
+				const ownLifelog = !spans.get(lifelog.id)?.continuedFrom;
+				if ((!ownLifelog || (rewriteIds && !rewriteIds.has(lifelog.id))) && cachedPath && this.app.vault.getAbstractFileByPath(cachedPath) instanceof TFile) {
+					notePaths.set(lifelog.id, cachedPath);
+					continue;
+				}
+				
+				try {
+					const notePath = await this.writeLifelogNote(lifelog, token, forceOverwrite && ownLifelog);
+					notePaths.set(lifelog.id, notePath);
+					this.lifelogCache.setNotePath(lifelog.id, notePath);
+				} catch (noteError) {
+					if (noteError instanceof SyncCancelledError) {
+						this.lifelogCache.invalidateDay(date);
+						throw noteError;
+					}
+					this.logError('Error creating/updating lifelog note:', noteError);
+					success = false;
+				}
+			}
+			this.syncProgressText = `Wrote ${notePaths.size} lifelog notes for date ${date}`;
+		}
+		
+		// Render the daily note from the day and lifelog templates
+		this.syncProgressText = `Rendering ${sortedLifelogs.length} lifelogs for date ${date}`;
+		const dailyNoteContent = await this.renderDailyNoteContent(noteDate, sortedLifelogs, notePaths, spans);
+		
+		// Write all content to the daily note at once
+		try {
+			// References to the previous day's lifelogs don't count towards this day's metadata
+			const frontmatter = this.settings.addFrontmatter
+				? buildLifelogsFrontmatter(date, sortedLifelogs.filter(lifelog => !spans.get(lifelog.id)?.reference), this.manifest.version, this.getTimezone(), this.getSpeakerNameResolver())
+				: null;
+			if (frontmatter && redactor.isActive) {
+				frontmatter['limitless-redactions'] = countRedactions(redactionCounts);
+			}
+			if (frontmatter && this.getProfileLabel()) {
+				frontmatter[PROFILE_KEY] = this.getProfileLabel();
+			}
+			const dailyNotePath = await this.createOrAppendToDailyNote(noteDate, dailyNoteContent, token, forceOverwrite, frontmatter);
+			this.log(`Successfully wrote ${sortedLifelogs.length} lifelogs to daily note for date: ${date}`);
 			
-			// Get the date for the daily note from any lifelog
-			const firstLifelog = allLifelogs[0];
-			const timestamp = this.getLifelogTimestamp(firstLifelog);
-			const lifelogDate = new Date(timestamp);
+			// In daily mode the lifelogs live in the daily note of the day they started on
+			if (!notePaths) {
+				for (const lifelog of lifelogs) {
+					this.lifelogCache.setNotePath(lifelog.id, dailyNotePath);
+				}
+			}
+		} catch (noteError) {
+			// Nothing is written after a cancel; the next sync writes this day again
+			if (noteError instanceof SyncCancelledError) {
+				this.lifelogCache.invalidateDay(date);
+				throw noteError;
+			}
+			this.logError('Error creating/updating daily note:', noteError);
+			success = false;
+		}
+		
+		// The next day's note shows the part of a lifelog that ran past midnight, so refresh it when
+		// such a lifelog changed. The refresh itself doesn't rewrite any lifelogs, which ends the chain.
+		const nextDay = addDays(date, 1);
+		const spanningChanged = lifelogs.some(lifelog => spans.get(lifelog.id)?.continuesOn && (!rewriteIds || rewriteIds.has(lifelog.id)));
+		if (success && spanningChanged) {
+			this.log(`Refreshing ${nextDay} for lifelogs that continue past midnight`);
+			const nextDayLifelogs = this.lifelogCache.getDay(nextDay).map(entry => entry.lifelog);
+			success = await this.writeDayNotes(nextDay, nextDayLifelogs, token, false, new Set());
+		}
+		
+		// Make sure the next sync retries lifelogs whose notes couldn't be written
+		if (!success) {
+			this.lifelogCache.invalidateDay(date);
+		}
+		return success;
+	}
+
+	// The redaction stage from the settings. The settings tab only saves valid patterns.
+	getRedactor(): Redactor {
+		return new Redactor(this.settings.redaction, this.settings.redactionSalt);
+	}
+
+	// Summary of the redaction report for sync notices, e.g. " Redacted 3 items on 2 days."
+	describeRedactions(): string {
+		let total = 0;
+		this.redactionReport.forEach(counts => total += countRedactions(counts));
+		return total > 0 ? ` Redacted ${total} items on ${this.redactionReport.size} days.` : '';
+	}
+
+	// The filter rules from the settings. The settings tab only saves valid rules.
+	getLifelogFilterRules(profile: LimitlessProfile = this.profile): LifelogFilterRule[] {
+		return buildFilterRules(profile.filters, this.getTimezone());
+	}
+
+	// Which lifelogs of the selected profile's most recent cached day its filter rules would exclude, for the
+	// settings preview
+	previewLifelogFilters(): { day: string | null; total: number; excluded: { lifelog: Lifelog; reason: string }[] } {
+		const profile = this.getSelectedProfile();
+		const cache = this.getProfileCache(profile);
+		const days = cache.getDays();
+		const day = days.length > 0 ? days[days.length - 1] : null;
+		if (!day) {
+			return { day, total: 0, excluded: [] };
+		}
+		
+		const lifelogs = cache.getDay(day).map(entry => entry.lifelog);
+		return { day, total: lifelogs.length, excluded: filterLifelogs(lifelogs, this.getLifelogFilterRules(profile)).excluded };
+	}
+
+	// Apply the midnight policy to the lifelogs that started on a day. Lifelogs that run into the next day
+	// are cut at midnight in split mode and link to the next day's note; lifelogs of the previous day that
+	// run into this day are added as their part after midnight (split) or as a reference.
+	// Per-lifelog notes always hold the whole lifelog, so in that mode the index lists it on both days.
+	async applyMidnightPolicy(date: string, lifelogs: Lifelog[], filterRules: LifelogFilterRule[]): Promise<{ lifelogs: Lifelog[]; spans: Map<string, LifelogSpan> }> {
+		const spans = new Map<string, LifelogSpan>();
+		const policy = this.settings.midnightPolicy;
+		if (policy === 'startDay') {
+			return { lifelogs, spans };
+		}
+		
+		const timezone = this.getTimezone();
+		const split = policy === 'split' && this.settings.outputMode === 'daily';
+		const previousDay = addDays(date, -1);
+		const nextDay = addDays(date, 1);
+		const dayLink = async (day: string) => `[[${(await this.getDailyNotePath(dayToDate(day))).replace(/\.md$/, '')}|${day}]]`;
+		
+		const result: Lifelog[] = [];
+		for (const lifelog of lifelogs) {
+			if (!getLifelogDays(lifelog, timezone).includes(nextDay)) {
+				result.push(lifelog);
+				continue;
+			}
 			
-			// Sort all lifelogs by timestamp
-			let sortedLifelogs: Lifelog[];
+			spans.set(lifelog.id, { continuesOn: await dayLink(nextDay) });
+			result.push(split ? sliceLifelogToDay(lifelog, date, timezone) || lifelog : lifelog);
+		}
+		
+		const previousDayLifelogs = filterLifelogs(this.lifelogCache.getDay(previousDay).map(entry => entry.lifelog), filterRules).kept;
+		for (const lifelog of previousDayLifelogs) {
+			if (!getLifelogDays(lifelog, timezone).includes(date)) continue;
 			
-			if (this.settings.ascendingOrder) {
-				// Ascending order: oldest first (chronological)
-				this.log('Using ascending order: sorting lifelogs oldest first');
-				sortedLifelogs = [...allLifelogs].sort((a, b) => {
-					const aTime = this.getLifelogTimestamp(a);
-					const bTime = this.getLifelogTimestamp(b);
-					if (!aTime || !bTime) return 0;
-					return new Date(aTime).getTime() - new Date(bTime).getTime();
-				});
-			} else {
-				// Descending order: newest first (reverse chronological)
-				this.log('Using descending order: sorting lifelogs newest first');
-				sortedLifelogs = [...allLifelogs].sort((a, b) => {
-					const aTime = this.getLifelogTimestamp(a);
-					const bTime = this.getLifelogTimestamp(b);
-					if (!aTime || !bTime) return 0;
-					return new Date(bTime).getTime() - new Date(aTime).getTime();
-				});
-			}
+			const part = split ? sliceLifelogToDay(lifelog, date, timezone) : lifelog;
+			if (!part) continue;
 			
-			// Prepare the content for the daily note
-			let dailyNoteContent = '';
-			let processedCount = 0;
+			spans.set(lifelog.id, { continuedFrom: await dayLink(previousDay), reference: !split });
+			result.push(part);
+		}
+		
+		return { lifelogs: result, spans };
+	}
+
+	// Flag the notes of lifelogs that were deleted upstream. Daily notes drop them on re-render,
+	// but per-lifelog notes may hold the user's own annotations, so they are kept and marked instead.
+	async markDeletedLifelogNotes(removed: CachedLifelog[], token: CancellationToken): Promise<void> {
+		const lifelogFolderPrefix = `${this.getLifelogFolderPath()}/`;
+		
+		for (const entry of removed) {
+			this.log('Lifelog deleted upstream:', entry.lifelog.id);
+			if (!entry.notePath || !entry.notePath.startsWith(lifelogFolderPrefix)) continue;
 			
-			// Process each lifelog to build the content
-			for (const lifelog of sortedLifelogs) {
-				// Check if sync was cancelled
-				if (this.cancelSync) {
-					this.log(`Sync cancelled during lifelog processing for date ${date}`);
-					break;
+			const file = this.app.vault.getAbstractFileByPath(entry.notePath);
+			if (file instanceof TFile) {
+				const existing = await this.app.vault.read(file);
+				const updated = mergeFrontmatter(existing, { 'limitless-deleted': true });
+				if (updated !== existing) {
+					token.throwIfCancelled();
+					await this.app.vault.modify(file, updated);
 				}
+			}
+		}
+	}
+
+	// Add an empty mapping for every speaker in the local caches of all profiles that isn't mapped yet, so the
+	// user only has to fill in the real names. Returns the number of speakers added.
+	addUnmappedSpeakers(): number {
+		const known = new Set(this.settings.speakerMappings.map(mapping => mapping.speaker.trim().toLowerCase()));
+		let added = 0;
+		
+		const entries = this.settings.profiles.reduce((all: CachedLifelog[], profile) => all.concat(this.getProfileCache(profile).entries()), []);
+		for (const entry of entries) {
+			for (const node of flattenContentNodes(entry.lifelog.contents)) {
+				if (!node.speakerName || node.speakerIdentifier === 'user') continue;
 				
-				// Add the markdown content
-				dailyNoteContent += lifelog.markdown + '\n\n';
+				const speaker = node.speakerName.trim();
+				if (known.has(speaker.toLowerCase())) continue;
 				
-				// Update progress for individual lifelogs
-				processedCount++;
-				if (processedCount % 5 === 0 || processedCount === sortedLifelogs.length) {
-					this.syncProgressText = `Processed ${processedCount}/${sortedLifelogs.length} lifelogs for date ${date}`;
+				known.add(speaker.toLowerCase());
+				this.settings.speakerMappings.push({ speaker, name: '' });
+				added++;
+			}
+		}
+		
+		return added;
+	}
+
+	// Quick check whether a file looks like a note written by the plugin, for showing the resync actions
+	isLimitlessNote(file: TFile): boolean {
+		if (file.extension !== 'md') return false;
+		
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+		if (frontmatter[LIFELOG_ID_KEY] || frontmatter['limitless-ids']) return true;
+		
+		return this.findNoteProfile(file) !== null;
+	}
+
+	// The profile that wrote a note: the one whose output folder it's in or whose cache knows it
+	findNoteProfile(file: TFile): LimitlessProfile | null {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+		const lifelogId = frontmatter[LIFELOG_ID_KEY];
+		
+		for (const profile of this.settings.profiles) {
+			const outputFolder = normalizePath(profile.outputFolder || '/');
+			if (file.path.startsWith(`${outputFolder}/`)) return profile;
+		}
+		for (const profile of this.settings.profiles) {
+			const cache = this.profileCaches.get(profile.id);
+			if (!cache) continue;
+			if (typeof lifelogId === 'string' && cache.get(lifelogId)) return profile;
+			if (cache.entries().some(entry => entry.notePath === file.path)) return profile;
+		}
+		return null;
+	}
+
+	// Work out what a Limitless note holds: the lifelog of a per-lifelog note, or the day of a daily note.
+	// Returns null for notes the plugin didn't write.
+	async getLimitlessNoteTarget(file: TFile, profile: LimitlessProfile): Promise<{ day: string; lifelogId: string | null } | null> {
+		const cache = this.getProfileCache(profile);
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+		const frontmatterDay = String(frontmatter['limitless-date'] || '');
+		
+		// Per-lifelog notes are tied to their lifelog by id
+		const lifelogId = frontmatter[LIFELOG_ID_KEY];
+		if (typeof lifelogId === 'string' && lifelogId) {
+			const cached = cache.get(lifelogId);
+			const day = cached ? cached.day : frontmatterDay;
+			return /^\d{4}-\d{2}-\d{2}$/.test(day) ? { day, lifelogId } : null;
+		}
+		
+		// Daily notes that lifelogs were written to
+		const cachedEntry = cache.entries().find(entry => entry.notePath === file.path);
+		if (cachedEntry) {
+			return { day: cachedEntry.day, lifelogId: null };
+		}
+		
+		// Otherwise the day has to come from the frontmatter or the note name, and the note has to be
+		// where that day's note would be written (e.g. an index note or a day without lifelogs)
+		const candidates = [frontmatterDay, ...(file.basename.match(/\d{4}-\d{2}-\d{2}/) || [])];
+		for (const day of candidates) {
+			if (/^\d{4}-\d{2}-\d{2}$/.test(day) && await this.getDailyNotePath(dayToDate(day), profile) === file.path) {
+				return { day, lifelogId: null };
+			}
+		}
+		
+		return null;
+	}
+
+	// Fetch the lifelogs of a note again and re-render just that note. Edits are preserved like in a
+	// regular sync: only the managed region of daily notes and lifelog notes is replaced.
+	async resyncNote(file: TFile): Promise<void> {
+		// The note is fetched with the account of the profile that wrote it
+		const profile = this.findNoteProfile(file) || this.getSelectedProfile();
+		if (!profile.apiKey) {
+			new Notice('Limitless API key not configured. Please update plugin settings.');
+			return;
+		}
+		
+		const target = await this.getLimitlessNoteTarget(file, profile);
+		if (!target) {
+			new Notice(`Couldn't find the Limitless date or lifelog of ${file.basename}.`);
+			return;
+		}
+		
+		const job = await this.startSyncJob(`Resync ${file.basename}`, profile);
+		if (!job) return;
+		const { token } = job;
+		const cache = this.getProfileCache(profile);
+		
+		this.lifelogNoteIndex = null;
+		this.templateErrorReported = false;
+		this.redactionReport = new Map();
+		this.syncProgress = 0;
+		this.syncProgressText = `Resyncing ${file.basename}`;
+		this.rateLimiter.resetMetrics();
+		
+		try {
+			if (target.lifelogId) {
+				// Refetch the lifelog's day, rewriting the lifelog's own note even if nothing changed upstream
+				const lifelogs = await this.fetchAllLifelogsForDay(target.day, token, false, false, [target.lifelogId]);
+				if (!lifelogs.some(lifelog => lifelog.id === target.lifelogId)) {
+					new Notice(`The lifelog of ${file.basename} no longer exists in Limitless.`);
+					return;
 				}
+			} else {
+				await this.fetchAllLifelogsForDay(target.day, token, false, true);
 			}
 			
-			// Check if sync was cancelled before writing
-			if (!this.cancelSync) {
-				// Write all content to the daily note at once
-				try {
-					await this.createOrAppendToDailyNote(lifelogDate, dailyNoteContent, forceOverwrite);
-					this.log(`Successfully wrote ${sortedLifelogs.length} lifelogs to daily note for date: ${date}`);
-				} catch (noteError) {
-					console.error('Error creating/updating daily note:', noteError);
-				}
+			this.syncProgress = 100;
+			this.syncProgressText = `Resynced ${file.basename}`;
+			new Notice(`Resynced ${file.basename} from Limitless.${this.describeRedactions()}`);
+		} catch (error) {
+			if (error instanceof SyncCancelledError) {
+				this.syncProgressText = 'Resync cancelled';
+				return;
+			}
+			this.logError('Error resyncing note:', error);
+			this.syncProgressText = `Error: ${error.message}`;
+			new Notice(`Error resyncing ${file.basename}: ${error.message}`, 5000);
+		} finally {
+			try {
+				await cache.save();
+			} catch (cacheError) {
+				this.logError('Error saving Limitless lifelog cache:', cacheError);
 			}
+			this.finishSyncJob(job);
+		}
+	}
+
+	// Re-render every note from the local cache without hitting the API, e.g. after a template change
+	async rerenderFromCache(): Promise<void> {
+		const profile = this.getSelectedProfile();
+		const cache = this.getProfileCache(profile);
+		const days = cache.getDays();
+		if (days.length === 0) {
+			new Notice('The local Limitless cache is empty. Run a sync first.');
+			return;
 		}
 		
-		this.log(`Total lifelogs fetched for date ${date}: ${allLifelogs.length}`);
-		return allLifelogs;
+		const job = await this.startSyncJob('Re-render from cache', profile);
+		if (!job) return;
+		
+		this.lifelogNoteIndex = null;
+		this.templateErrorReported = false;
+		this.redactionReport = new Map();
+		this.syncTotal = days.length;
+		this.syncCurrent = 0;
+		this.syncProgress = 0;
+		
+		try {
+			for (const day of days) {
+				const lifelogs = cache.getDay(day).map(entry => entry.lifelog);
+				await this.writeDayNotes(day, lifelogs, job.token, false);
+				
+				this.syncCurrent++;
+				this.syncProgress = Math.floor((this.syncCurrent / days.length) * 100);
+				this.syncProgressText = `Re-rendered ${this.syncCurrent}/${days.length} days from cache`;
+			}
+			
+			new Notice(`Re-rendered ${this.syncCurrent} days from the local Limitless cache.${this.describeRedactions()}`);
+		} catch (error) {
+			if (error instanceof SyncCancelledError) {
+				this.syncProgressText = `Re-render cancelled after ${this.syncCurrent}/${days.length} days`;
+				return;
+			}
+			this.logError('Error re-rendering notes from cache:', error);
+			this.syncProgressText = `Error: ${error.message}`;
+			new Notice(`Error re-rendering Limitless notes: ${error.message}`, 5000);
+		} finally {
+			try {
+				await cache.save();
+			} catch (cacheError) {
+				this.logError('Error saving Limitless lifelog cache:', cacheError);
+			}
+			this.finishSyncJob(job);
+		}
+	}
+
+	// Make a new job of a profile the current one. A running job has to finish or be cancelled first; if it was
+	// cancelled, this waits until its work has drained. Returns null if another job is still running.
+	async startSyncJob(name: string, profile: LimitlessProfile): Promise<SyncJob | null> {
+		while (this.currentJob) {
+			if (!this.currentJob.isCancelled) {
+				new Notice('A sync operation is already in progress. Please wait for it to complete or cancel it.');
+				return null;
+			}
+			
+			this.log(`Waiting for the cancelled ${this.currentJob.name} to stop before starting ${name}`);
+			await this.currentJob.drained;
+		}
+		
+		const job = new SyncJob(name, profile);
+		this.currentJob = job;
+		return job;
+	}
+
+	finishSyncJob(job: SyncJob): void {
+		if (this.currentJob === job) {
+			this.currentJob = null;
+		}
+		job.finish();
+	}
+
+	// Cancel the running job and wait until its work has stopped. Queued requests and retry waits are
+	// aborted right away; a request already in flight is discarded when it returns, and no note is
+	// written after the cancel.
+	async cancelOngoingSync(): Promise<void> {
+		const job = this.currentJob;
+		if (!job) {
+			new Notice('No sync operation is currently running.');
+			return;
+		}
+		
+		// The profiles still waiting to sync are skipped too
+		this.profileSyncQueue = [];
+		
+		if (!job.isCancelled) {
+			this.log(`Cancelling ${job.name}`);
+			job.cancel();
+			this.syncProgressText = 'Cancelling sync...';
+			new Notice('Limitless sync cancelled.');
+		}
+		
+		await job.drained;
 	}
-	
 
+	// Sync the days from startDay to endDay (inclusive) one by one, e.g. to fix a single bad day without a
+	// full backfill. Overwrite rewrites the notes from scratch; otherwise the managed region is replaced.
+	async syncDateRange(startDay: string, endDay: string, overwrite: boolean): Promise<void> {
+		await this.syncLifelogs(true, startDay, { endDate: endDay, overwrite });
+	}
+
+	// Ask for a day or a range of days to sync
+	openSyncDateModal(range: boolean): void {
+		const today = getZonedDay(new Date(), this.getTimezone());
+		new SyncDateModal(this.app, {
+			range,
+			defaultDay: today,
+			today,
+			overwrite: this.settings.dateSyncOverwrite,
+			onSubmit: (startDay, endDay, overwrite) => {
+				this.syncDateRange(startDay, endDay, overwrite);
+			}
+		}).open();
+	}
+
+	// Fetch the lifelogs that started between start and end (YYYY-MM-DD HH:mm:SS in the configured timezone)
+	// and merge them into their notes, without moving the high-water mark of incremental syncs
+	async fetchWindow(start: string, end: string): Promise<void> {
+		await this.syncLifelogs(false, undefined, { window: { start, end } });
+	}
+
+	// Ask for a datetime window to fetch, today up to now by default
+	openFetchWindowModal(): void {
+		const now = this.formatApiDateTime(new Date());
+		new FetchWindowModal(this.app, {
+			defaultStart: `${now.substring(0, 10)} 00:00:00`,
+			defaultEnd: now,
+			timezone: this.getTimezone(),
+			onSubmit: (start, end) => {
+				this.fetchWindow(start, end);
+			}
+		}).open();
+	}
+
+	// Sync the days that failed in earlier syncs again, merging into their notes
+	async retryFailedDays(): Promise<void> {
+		const profile = this.getSelectedProfile();
+		const failedDays = this.syncHistory.getFailedDays(profile.id);
+		if (failedDays.length === 0) {
+			new Notice('No failed Limitless days to retry.');
+			return;
+		}
+		
+		await this.syncLifelogs(true, undefined, { overwrite: false, days: failedDays, profile });
+	}
+
+	// Continue an interrupted backfill, skipping the days it already completed
+	async resumeBackfill(profile: LimitlessProfile = this.getSelectedProfile()): Promise<void> {
+		const checkpoint = profile.backfillCheckpoint;
+		if (!checkpoint) {
+			new Notice('No unfinished Limitless backfill to resume.');
+			return;
+		}
+		
+		const remainingDays = getRemainingBackfillDays(checkpoint);
+		if (remainingDays.length === 0) {
+			await this.discardBackfill(profile);
+			new Notice('The Limitless backfill already completed.');
+			return;
+		}
+		
+		this.log(`Resuming backfill (${describeBackfill(checkpoint)})`);
+		await this.syncLifelogs(true, undefined, { overwrite: checkpoint.overwrite, days: remainingDays, mode: 'resume', profile });
+	}
 
-	// Array to track active fetch requests
-	private activeFetchRequests: AbortController[] = [];
+	async discardBackfill(profile: LimitlessProfile = this.getSelectedProfile()): Promise<void> {
+		profile.backfillCheckpoint = null;
+		await this.saveSettings();
+	}
 
-	async cancelOngoingSync(): Promise<void> {
-		if (this.isSyncing) {
-			this.log('Cancelling ongoing sync operation');
-			
-			// Set the cancel flag to true - this is the main signal for all processes to stop
-			this.cancelSync = true;
-			
-			// We can't directly abort Obsidian's requestUrl calls, but we can set the cancelSync flag
-			// which will prevent further processing
-			this.log(`Setting cancel flag for ${this.activeFetchRequests.length} active requests`);
-			
-			// Clear the array since we can't actually abort the requests
-			// but we can prevent further processing by setting cancelSync = true
-			this.activeFetchRequests = [];
-			
-			// Reset sync state immediately
-			this.isSyncing = false;
-			this.syncProgressText = 'Sync cancelled';
-			
-			// Force a UI refresh to show cancellation
-			this.syncProgress = 0;
-			
-			new Notice('Limitless sync cancelled.');
-			
-			// Add a small delay to ensure the cancellation flag propagates
-			await new Promise(resolve => setTimeout(resolve, 100));
-		} else {
-			new Notice('No sync operation is currently running.');
+	openSyncHistory(): void {
+		let profileNames: Record<string, string> | null = null;
+		if (this.settings.profiles.length > 1) {
+			profileNames = {};
+			for (const profile of this.settings.profiles) {
+				profileNames[profile.id] = profile.name;
+			}
 		}
+		new SyncHistoryModal(this.app, this.syncHistory.runs, this.syncHistory.getFailedDays(this.getSelectedProfile().id), () => this.retryFailedDays(), profileNames).open();
 	}
 
-	async syncLifelogs(forceSync: boolean = false, customStartDate?: string): Promise<void> {
+	// A force sync fetches day by day from customStartDate (or the start date) to options.endDate (or today), or
+	// just the given days, and rewrites every day's notes; overwrite decides whether whole files are replaced
+	// or only the managed region. Full backfills of more than one day are checkpointed so they can be resumed.
+	async syncLifelogs(forceSync: boolean = false, customStartDate?: string, options: SyncOptions = {}): Promise<void> {
+		const { endDate: customEndDate, days, window } = options;
+		const overwrite = options.overwrite !== undefined ? options.overwrite : forceSync;
+		// The profile is resolved once; the job keeps it even if another profile is selected meanwhile
+		const profile = options.profile || this.getSelectedProfile();
+		const cache = this.getProfileCache(profile);
+
 		// Check if API key is configured
-		if (!this.settings.apiKey) {
+		if (!profile.apiKey) {
 			new Notice('Limitless API key not configured. Please update plugin settings.');
 			return;
 		}
 		
-		// Check if sync is already in progress
-		if (this.isSyncing) {
-			new Notice('A sync operation is already in progress. Please wait for it to complete or cancel it.');
+		// Profiles sharing an output folder would overwrite each other's notes
+		const conflict = findOutputFolderConflict(profile, this.settings.profiles);
+		if (conflict) {
+			new Notice(`Limitless profiles "${profile.name}" and "${conflict.name}" use the same output folder. Please give each profile its own folder.`, 10000);
 			return;
 		}
 		
-		// Set sync flags
-		this.isSyncing = true;
-		this.cancelSync = false;
+		// Only one job runs at a time; a cancelled one is waited for until it has drained
+		const job = await this.startSyncJob(forceSync ? 'force sync' : 'sync', profile);
+		if (!job) return;
+		const { token } = job;
+		
+		// Re-scan per-lifelog notes and report template errors again on every sync
+		this.lifelogNoteIndex = null;
+		this.templateErrorReported = false;
+		this.redactionReport = new Map();
 		
 		// Reset progress tracking
 		this.syncProgress = 0;
 		this.syncTotal = 0;
 		this.syncCurrent = 0;
 		this.syncProgressText = 'Preparing sync...';
+		this.rateLimiter.resetMetrics();
 		
-		// Store the force overwrite setting for this sync operation
-		const forceOverwrite = forceSync || this.settings.forceOverwrite;
+		// Only an overwriting force sync rewrites whole files; other syncs merge into the managed region
+		const forceOverwrite = forceSync && overwrite;
+		
+		// Record the sync in the history
+		const mode: SyncMode = options.mode || (days ? 'retry' : customEndDate ? 'range' : forceSync ? 'force' : window ? 'window' : 'incremental');
+		const run = this.syncHistory.start(mode, profile.id);
+		this.currentSyncRun = run;
+		let runError: string | null = null;
+		let cancelled = false;
 
 		try {
 			this.log('Starting sync operation. Force sync:', forceSync);
 			
 			// Initialize counters for tracking processed lifelogs
 			let totalProcessedLifelogs = 0;
-			let latestTimestamp = this.settings.lastSyncTimestamp || '';
+			// High-water mark: end time of the newest lifelog seen
+			let latestTimestamp = profile.lastSyncTimestamp || '';
 			
 			// If force sync, do a day-by-day sync from the start date to today
 			if (forceSync) {
 				this.log('Force sync enabled, syncing day-by-day from start date');
 				
 				// Parse the start date - use custom start date if provided, otherwise use the configured start date
-				const startDateStr = customStartDate || this.settings.startDate;
+				const startDateStr = customStartDate || profile.startDate;
 				this.log(`Using start date: ${startDateStr}`);
-				const startDate = new Date(startDateStr);
-				const today = new Date();
-				today.setHours(23, 59, 59, 999); // End of today
 				
-				this.log('Syncing from', startDate.toISOString(), 'to', today.toISOString());
+				// Generate array of all dates to sync, up to today in the configured timezone
+				const today = getZonedDay(new Date(), this.getTimezone());
+				const endDateStr = customEndDate && customEndDate < today ? customEndDate : today;
+				const allDates = days || enumerateDays(startDateStr, endDateStr);
+				
+				// Checkpoint full backfills, so the days already done are skipped if the backfill is resumed later.
+				// Starting a new one replaces the checkpoint of an unfinished one; range syncs and retries leave it alone.
+				let checkpoint: BackfillCheckpoint | null = null;
+				if (mode === 'resume') {
+					checkpoint = profile.backfillCheckpoint;
+				} else if (mode === 'force' && allDates.length > 1) {
+					checkpoint = createBackfillCheckpoint(allDates, forceOverwrite);
+					profile.backfillCheckpoint = checkpoint;
+					await this.saveSettings();
+				}
+				this.log('Syncing', allDates.length, 'days from', allDates[0], 'to', allDates[allDates.length - 1], 'in', this.getTimezone());
 				
 				// Calculate total days for progress tracking
-				const totalDays = Math.floor((today.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+				const totalDays = allDates.length;
 				this.syncTotal = totalDays;
 				this.syncCurrent = 0;
 				this.syncProgressText = `Preparing to sync ${totalDays} days`;
 				
-				// Generate array of all dates to sync
-				const allDates: string[] = [];
-				const currentDate = new Date(startDate);
-				while (currentDate <= today) {
-					const dateString = currentDate.toISOString().split('T')[0]; // YYYY-MM-DD format
-					allDates.push(dateString);
-					currentDate.setDate(currentDate.getDate() + 1);
-				}
-				
 				this.log(`Prepared ${allDates.length} days to sync using parallel processing`);
 				this.syncProgressText = `Preparing to sync ${allDates.length} days`;
 				
-				// Reduce concurrent operations to avoid overwhelming the API
-				const MAX_CONCURRENT = 5; // Reduced from 10 to 5
-				let activeTasks = 0;
+				// One worker per concurrent request; the shared rate limiter paces the actual API calls
+				const MAX_CONCURRENT = Math.max(1, this.settings.maxConcurrentRequests);
 				let completedDays = 0;
 				let dateIndex = 0;
 				
 				// Map to store results by date
 				const resultsByDate = new Map<string, Lifelog[]>();
 				
-				// Create a promise that resolves when all days are processed
-				await new Promise<void>((resolve, reject) => {
-					// Function to process the next date in the queue
-					const processNextDate = async () => {
-						// Check if we should stop processing - immediate return if cancelled
-						if (this.cancelSync) {
-							this.log('Cancellation detected in processNextDate - stopping queue');
-							return resolve();
-						}
-						
-						// Check if we've processed all dates
-						if (dateIndex >= allDates.length) {
-							// If no active tasks, we're done
-							if (activeTasks === 0) {
-								resolve();
-							}
-							return;
-						}
-						
-						// Check for cancellation again before getting next date
-						if (this.cancelSync) {
-							this.log('Cancellation detected before processing next date');
-							return resolve();
-						}
-						
-						// Get the next date to process
+				// Each worker syncs one day after another until no days are left or the sync is cancelled.
+				// Waiting for all workers means every in-flight day has stopped before the job drains.
+				const syncNextDates = async () => {
+					while (dateIndex < allDates.length && !token.isCancelled) {
 						const dateString = allDates[dateIndex++];
-						activeTasks++;
 						
 						try {
-							// Check for cancellation before starting day processing
-							if (this.cancelSync) {
-								this.log(`Skipping day ${dateString} due to cancellation`);
-								activeTasks--;
-								// Don't process next date, just return
-								return resolve();
-							}
-							
-							this.log(`Starting sync for day: ${dateString} (${activeTasks} active tasks)`);
+							this.log(`Starting sync for day: ${dateString}`);
 							
 							// Process all lifelogs for this day (with pagination)
-							const dayLifelogs = await this.fetchAllLifelogsForDay(dateString, forceOverwrite);
-							
-							// Check for cancellation after day processing
-							if (this.cancelSync) {
-								this.log(`Day ${dateString} completed but sync was cancelled - stopping further processing`);
-								activeTasks--;
-								return resolve();
-							}
+							const dayLifelogs = await this.fetchAllLifelogsForDay(dateString, token, forceOverwrite, true);
 							
 							// Store the results
 							resultsByDate.set(dateString, dayLifelogs);
+							run.days++;
+							run.lifelogs += dayLifelogs.length;
+							this.syncHistory.resolveDay(dateString, profile.id);
+							if (checkpoint) {
+								markBackfillDayCompleted(checkpoint, dateString);
+								await this.saveSettings();
+							}
 							
 							// Update progress - only tracking days synced/total days
 							completedDays++;
@@ -746,187 +1971,138 @@ export default class LimitlessPlugin extends Plugin {
 							this.log(`Completed day ${dateString} with ${dayLifelogs.length} lifelogs`);
 							
 							// Show progress notification every 10 days
-							if (completedDays % 10 === 0 || completedDays === totalDays) {
-								new Notice(`Force sync progress: ${completedDays}/${totalDays} days`);
+							if (totalDays > 1 && (completedDays % 10 === 0 || completedDays === totalDays)) {
+								new Notice(`${customEndDate || days ? 'Sync' : 'Force sync'} progress: ${completedDays}/${totalDays} days`);
 							}
 						} catch (error) {
-							this.log(`Error syncing day ${dateString}:`, error);
-							// Store empty result for this date
-							resultsByDate.set(dateString, []);
-						} finally {
-							activeTasks--;
-							
-							// Check for cancellation before scheduling next date
-							if (this.cancelSync) {
-								this.log('Cancellation detected in finally block - not scheduling more tasks');
-								// If all tasks are done, resolve the promise
-								if (activeTasks === 0) {
-									resolve();
-								}
+							if (error instanceof SyncCancelledError) {
+								this.log(`Stopped syncing day ${dateString} due to cancellation`);
 								return;
 							}
-							
-							// Process next date with a small delay to avoid overwhelming the API
-							setTimeout(processNextDate, 200); // Add 200ms delay between requests
+							this.logError(`Error syncing day ${dateString}:`, error);
+							// Remember the day for "retry failed days"
+							this.syncHistory.recordDayError(run, dateString, error.message);
 						}
-					};
-					
-					// Check if cancelled before starting any tasks
-					if (this.cancelSync) {
-						this.log('Sync already cancelled before starting tasks');
-						return resolve();
-					}
-					
-					// Start initial batch of tasks with a small delay between each
-					for (let i = 0; i < MAX_CONCURRENT && i < allDates.length; i++) {
-						// Use setTimeout with a staggered delay to prevent overwhelming the API
-						setTimeout(processNextDate, i * 500); // Add 500ms delay between each initial task
 					}
-				});
+				};
 				
-				// Process all results to count total lifelogs and find latest timestamp
-				for (const [dateString, lifelogs] of resultsByDate.entries()) {
+				// Start the workers and wait for all of them to stop
+				const workers: Promise<void>[] = [];
+				for (let i = 0; i < MAX_CONCURRENT && i < allDates.length; i++) {
+					workers.push(syncNextDates());
+				}
+				await Promise.all(workers);
+				
+				// Process all results to count total lifelogs
+				for (const lifelogs of resultsByDate.values()) {
 					totalProcessedLifelogs += lifelogs.length;
-					
-					// Update latest timestamp if needed
-					for (const lifelog of lifelogs) {
-						const timestamp = this.getLifelogTimestamp(lifelog);
-						if (timestamp && (!latestTimestamp || new Date(timestamp) > new Date(latestTimestamp))) {
-							latestTimestamp = timestamp;
-						}
-					}
 				}
 				
 				// Check if sync was cancelled
-				if (this.cancelSync) {
+				if (token.isCancelled) {
 					this.log('Sync operation was cancelled by user');
-					new Notice(`Sync cancelled. Processed ${totalProcessedLifelogs} lifelogs before cancellation.`);
+					cancelled = true;
+					new Notice(`Sync cancelled. Processed ${totalProcessedLifelogs} lifelogs before cancellation.${checkpoint ? ' Use "Resume backfill" to continue later.' : ''}`);
 					this.syncProgressText = `Sync cancelled after processing ${totalProcessedLifelogs} lifelogs`;
-					this.isSyncing = false;
-					this.cancelSync = false;
-					// Clear any remaining active requests
-					this.activeFetchRequests = [];
 					return;
 				}
-			} else {
-				// Regular incremental sync using the last sync timestamp
-				this.log('Regular sync, using last sync timestamp:', this.settings.lastSyncTimestamp || 'None');
-				this.syncProgressText = 'Starting incremental sync...';
 				
-				// Check if sync was cancelled before starting
-				if (this.cancelSync) {
-					this.log('Sync operation was cancelled by user before starting incremental sync');
-					new Notice('Sync cancelled.');
-					this.syncProgressText = 'Sync cancelled before starting';
-					this.isSyncing = false;
-					this.cancelSync = false;
-					// Clear any remaining active requests
-					this.activeFetchRequests = [];
-					return;
+				// Every day was attempted; days that failed are left to "retry failed days"
+				if (checkpoint) {
+					profile.backfillCheckpoint = null;
+					await this.saveSettings();
 				}
-				
-				// For incremental sync, we need to determine the date range to sync
-				this.syncProgressText = 'Determining date range for incremental sync...';
-				
-				// If we have a last sync timestamp, use it to determine the start date
-				let startDate: Date;
-				if (this.settings.lastSyncTimestamp) {
-					// Use the last sync timestamp as the start date
-					startDate = new Date(this.settings.lastSyncTimestamp);
-					// Subtract one day to ensure we don't miss any lifelogs
-					startDate.setDate(startDate.getDate());
+			} else {
+				// Regular incremental sync using the last sync timestamp, unless an explicit window was given
+				let windowStart: string;
+				let windowEnd: string;
+				if (window) {
+					this.log(`Fetching window from ${window.start} to ${window.end}`);
+					this.syncProgressText = 'Fetching window...';
+					windowStart = window.start;
+					windowEnd = window.end;
 				} else {
-					// If no last sync timestamp, use the Limitless Start Date from settings
-					startDate = new Date(this.settings.startDate);
-					this.log(`No last sync timestamp, using Limitless Start Date: ${this.settings.startDate}`);
+					this.log('Regular sync, using last sync timestamp:', profile.lastSyncTimestamp || 'None');
+					this.syncProgressText = 'Starting incremental sync...';
+					
+					// Fetch everything since the high-water mark as one paginated window. Start a little
+					// before it so lifelogs that were still being recorded at the last sync get refreshed.
+					windowStart = profile.lastSyncTimestamp
+						? this.formatApiDateTime(new Date(new Date(profile.lastSyncTimestamp).getTime() - INCREMENTAL_SYNC_OVERLAP_MS))
+						: `${profile.startDate} 00:00:00`;
+					windowEnd = this.formatApiDateTime(new Date());
+					if (!profile.lastSyncTimestamp) {
+						this.log(`No last sync timestamp, using Limitless Start Date: ${profile.startDate}`);
+					}
 				}
 				
-				// End date is today
-				const endDate = new Date();
+				const fetchedLifelogs = await this.fetchLifelogsInWindow(windowStart, windowEnd, token);
+				totalProcessedLifelogs = fetchedLifelogs.length;
+				this.syncProgress = 50;
 				
-				// Generate all dates in the range
-				const allDates: string[] = [];
-				const currentDate = new Date(startDate);
-				while (currentDate <= endDate) {
-					allDates.push(currentDate.toISOString().split('T')[0]); // YYYY-MM-DD format
-					currentDate.setDate(currentDate.getDate() + 1);
+				// Group the fetched lifelogs by day, so only the affected days are merged and rewritten
+				const lifelogsByDay = new Map<string, Lifelog[]>();
+				for (const lifelog of fetchedLifelogs) {
+					const day = this.getLifelogDay(lifelog);
+					if (!lifelogsByDay.has(day)) {
+						lifelogsByDay.set(day, []);
+					}
+					lifelogsByDay.get(day)?.push(lifelog);
+					
+					// Track the newest lifelog end time as the next high-water mark
+					const { end } = getLifelogTimeRange(lifelog);
+					if (end && (!latestTimestamp || end > new Date(latestTimestamp))) {
+						latestTimestamp = end.toISOString();
+					}
 				}
 				
-				this.log(`Incremental sync will process ${allDates.length} days from ${allDates[0]} to ${allDates[allDates.length - 1]}`);
-				
-				// Now process each date using the same approach as force sync
-				const resultsByDate = new Map<string, Lifelog[]>();
-				let completedDays = 0;
-				const totalDays = allDates.length;
-				
-				// Set up progress tracking
-				this.syncTotal = totalDays;
+				const affectedDays = [...lifelogsByDay.keys()].sort();
+				this.log(`Incremental sync fetched ${fetchedLifelogs.length} lifelogs across ${affectedDays.length} days`);
+				this.syncTotal = affectedDays.length;
 				this.syncCurrent = 0;
-				this.syncProgress = 0;
-				this.syncProgressText = `Starting incremental sync for ${totalDays} days`;
 				
-				// Process each date sequentially
-				for (const dateString of allDates) {
-					// Check for cancellation
-					if (this.cancelSync) {
-						this.log(`Skipping day ${dateString} due to cancellation`);
-						break;
-					}
+				for (const day of affectedDays) {
+					token.throwIfCancelled();
 					
-					this.log(`Starting sync for day: ${dateString}`);
-					
-					// Process all lifelogs for this day
-					try {
-						const dayLifelogs = await this.fetchAllLifelogsForDay(dateString, forceOverwrite);
-						
-						// Check for cancellation after day processing
-						if (this.cancelSync) {
-							this.log(`Day ${dateString} completed but sync was cancelled - stopping further processing`);
-							break;
+					// The window may only cover part of a day, so merge into the cached day instead of replacing it.
+					// A day's notes are rendered from the cache, so if the cache doesn't have the whole day (e.g.
+					// it was cleared) the day is fetched in full first; otherwise its earlier lifelogs would be lost.
+					// An incremental window runs until now, so only an explicit window can end part way through a day
+					const coversDay = windowStart <= `${day} 00:00:00` && (!window || windowEnd >= `${addDays(day, 1)} 00:00:00`);
+					if (!coversDay && !cache.isDayComplete(day)) {
+						this.log(`The cache doesn't have all lifelogs of ${day}, fetching the whole day`);
+						try {
+							await this.fetchAllLifelogsForDay(day, token, false);
+						} catch (error) {
+							if (error instanceof SyncCancelledError) throw error;
+							this.logError(`Error syncing day ${day}:`, error);
+							this.syncHistory.recordDayError(run, day, error.message);
 						}
+					} else {
+						const changes = cache.mergeDay(day, lifelogsByDay.get(day) || []);
+						if (coversDay) {
+							cache.markDayComplete(day);
+						}
+						const rewriteIds = new Set([...changes.added, ...changes.changed]);
+						const dayLifelogs = cache.getDay(day).map(entry => entry.lifelog);
 						
-						// Store the results
-						resultsByDate.set(dateString, dayLifelogs);
-						
-						// Update progress
-						completedDays++;
-						this.syncCurrent = completedDays;
-						this.syncProgress = Math.floor((completedDays / totalDays) * 100);
-						this.syncProgressText = `Synced ${completedDays}/${totalDays} days`;
-						this.log(`Completed day ${dateString} with ${dayLifelogs.length} lifelogs`);
-					} catch (error) {
-						this.log(`Error syncing day ${dateString}:`, error);
-						// Store empty result for this date
-						resultsByDate.set(dateString, []);
-					}
-				}
-				
-				// Process all results to count total lifelogs and find latest timestamp
-				for (const [dateString, lifelogs] of resultsByDate.entries()) {
-					totalProcessedLifelogs += lifelogs.length;
-					
-					// Update latest timestamp if needed
-					for (const lifelog of lifelogs) {
-						const timestamp = this.getLifelogTimestamp(lifelog);
-						if (timestamp && (!latestTimestamp || new Date(timestamp) > new Date(latestTimestamp))) {
-							latestTimestamp = timestamp;
+						if (rewriteIds.size === 0 && this.lifelogNotesExist(dayLifelogs)) {
+							this.log(`No changes for date ${day}, skipping note updates`);
+						} else if (!(await this.writeDayNotes(day, dayLifelogs, token, false, rewriteIds))) {
+							this.syncHistory.recordDayError(run, day, `Some notes for ${day} couldn't be written`);
 						}
 					}
+					run.days++;
+					run.lifelogs += (lifelogsByDay.get(day) || []).length;
+					
+					this.syncCurrent++;
+					this.syncProgress = 50 + Math.floor((this.syncCurrent / affectedDays.length) * 50);
+					this.syncProgressText = `Synced ${this.syncCurrent}/${affectedDays.length} days`;
 				}
 				
 				// Set progress to 100% for incremental sync completion
 				this.syncProgress = 100;
 				this.syncProgressText = `Incremental sync complete`;
-				
-				// Check if sync was cancelled during processing
-				if (this.cancelSync) {
-					this.log('Sync operation was cancelled by user during incremental sync');
-					new Notice(`Sync cancelled. Processed ${totalProcessedLifelogs} lifelogs before cancellation.`);
-					this.syncProgressText = `Sync cancelled`;
-					this.isSyncing = false;
-					this.cancelSync = false;
-					return;
-				}
 			}
 			
 			// If no lifelogs were processed, we're done
@@ -935,44 +2111,54 @@ export default class LimitlessPlugin extends Plugin {
 				new Notice('No new lifelogs found');
 				this.syncProgressText = 'Sync complete';
 				this.syncProgress = 100;
-				this.isSyncing = false;
 				return;
 			}
 			
-			// Update the last sync timestamp only for regular syncs, not force syncs
-			if (!forceSync) {
-				// Use current time instead of latestTimestamp
-				const currentTime = new Date().toISOString();
-				this.settings.lastSyncTimestamp = currentTime;
-				await this.saveSettings();
-				this.log('Updated last sync timestamp to current time:', currentTime);
+			// Advance the high-water mark only for regular syncs, not force syncs or window fetches, which
+			// may leave a gap before the window
+			if (!forceSync && !window) {
+				if (latestTimestamp && latestTimestamp !== profile.lastSyncTimestamp) {
+					profile.lastSyncTimestamp = latestTimestamp;
+					await this.saveSettings();
+					this.log('Advanced last sync timestamp to newest lifelog end time:', latestTimestamp);
+				}
 			} else {
-				this.log('Force sync completed without updating last sync timestamp');
+				this.log('Sync completed without updating last sync timestamp');
 			}
 			
 			// Show success message
-			if (forceSync) {
-				new Notice(`Force sync completed! ${totalProcessedLifelogs} entries processed with overwrite.`);
+			if (forceSync && (customEndDate || days)) {
+				new Notice(`Synced ${this.syncTotal} days! ${totalProcessedLifelogs} entries processed${forceOverwrite ? ' with overwrite' : ''}.${this.describeRedactions()}`);
+				this.syncProgressText = `Sync completed`;
+			} else if (window) {
+				new Notice(`Fetched ${totalProcessedLifelogs} lifelogs from ${window.start} to ${window.end}!${this.describeRedactions()}`);
+				this.syncProgressText = `Sync completed`;
+			} else if (forceSync) {
+				new Notice(`Force sync completed! ${totalProcessedLifelogs} entries processed with overwrite.${this.describeRedactions()}`);
 				this.syncProgressText = `Force sync completed`;
 			} else {
-				new Notice(`Limitless Lifelogs synced! ${totalProcessedLifelogs} entries processed.`);
+				new Notice(`Limitless Lifelogs synced! ${totalProcessedLifelogs} entries processed.${this.describeRedactions()}`);
 				this.syncProgressText = `Sync completed`;
 			}
 			
 			// Set final progress
 			this.syncProgress = 100;
 			
-			// Reset sync flag
-			this.isSyncing = false;
-			
 		} catch (error) {
-			console.error('Error syncing lifelogs:', error);
+			// A cancelled incremental sync stops where it is, without advancing the high-water mark
+			if (error instanceof SyncCancelledError) {
+				this.log('Sync operation was cancelled by user');
+				cancelled = true;
+				new Notice('Sync cancelled.');
+				this.syncProgressText = 'Sync cancelled';
+				return;
+			}
+			
+			this.logError('Error syncing lifelogs:', error);
 			
 			// Update progress on error
 			this.syncProgressText = `Error: ${error.message}`;
-			
-			// Reset sync flag on error
-			this.isSyncing = false;
+			runError = error.message;
 			
 			// Display a user-friendly error message
 			if (error.message.includes('Authentication failed')) {
@@ -982,6 +2168,31 @@ export default class LimitlessPlugin extends Plugin {
 			} else {
 				new Notice(`Error syncing Limitless Lifelogs: ${error.message}`, 5000);
 			}
+		} finally {
+			// Record how the sync ended; the status bar shows the error until the next successful sync
+			this.syncHistory.finish(run, runError ? 'failed' : cancelled ? 'cancelled' : 'completed', runError);
+			this.currentSyncRun = null;
+			if (runError) {
+				this.syncErrors.set(profile.id, runError);
+			} else if (!cancelled) {
+				this.syncErrors.delete(profile.id);
+				profile.lastSyncCompletedAt = run.endedAt || new Date().toISOString();
+			}
+			if (run.failedDays.length > 0) {
+				new Notice(`${run.failedDays.length} Limitless days failed to sync. Use "Retry failed days" in the sync history.`, 10000);
+			}
+			
+			// Persist what was fetched, even if the sync was cancelled or failed part way
+			try {
+				await this.saveSettings();
+				await cache.save();
+				await this.syncHistory.save();
+			} catch (saveError) {
+				this.logError('Error saving Limitless sync data:', saveError);
+			}
+			
+			// Only now can another sync start
+			this.finishSyncJob(job);
 		}
 	}
 }
@@ -1014,121 +2225,682 @@ class LimitlessSettingTab extends PluginSettingTab {
 	updateProgressBar(): void {
 		if (!this.statusTextEl || !this.progressBarEl || !this.progressTextEl) return;
 		
-		// Update status text
-		this.statusTextEl.textContent = this.plugin.isSyncing ? 
-			`Status: Syncing - ${this.plugin.syncProgressText}` : 
-			`Status: ${this.plugin.syncProgressText || 'Ready'}`;
-
-		// Update progress bar
-		if (this.plugin.isSyncing) {
-			// Only update the width dynamically
-			this.progressBarEl.style.width = `${this.plugin.syncProgress}%`;
-			this.progressTextEl.textContent = `${this.plugin.syncProgress}%`;
-			
-			// Use class to update text color based on progress
-			if (this.plugin.syncProgress > 50) {
-				this.progressTextEl.classList.add('progress-text-on-accent');
-				this.progressTextEl.classList.remove('progress-text-normal');
-			} else {
-				this.progressTextEl.classList.add('progress-text-normal');
-				this.progressTextEl.classList.remove('progress-text-on-accent');
-			}
-		} else {
-			// Always show the progress bar, but at 100% when not syncing
-			this.progressBarEl.style.width = '100%';
-			if (this.plugin.syncProgressText) {
-				this.progressTextEl.textContent = this.plugin.syncProgressText;
-			} else {
-				this.progressTextEl.textContent = 'Ready';
-			}
-			this.progressTextEl.classList.add('progress-text-normal');
-			this.progressTextEl.classList.remove('progress-text-on-accent');
-		}
-	}
-
-	display(): void {
-		const {containerEl} = this;
-
-		containerEl.empty();
-		containerEl.createEl('h1', {text: 'Limitless Settings'});
-		containerEl.createEl('p', {text: 'Configure your Limitless plugin settings below.'});
-
-		// ==========================================
-		// Section 1: API Configuration
-		// ==========================================
-		containerEl.createEl('h3', {text: 'API Configuration'});
-
+		// Update status text
+		this.statusTextEl.textContent = this.plugin.isSyncing ? 
+			`Status: Syncing - ${this.plugin.getProgressText()}` : 
+			`Status: ${this.plugin.syncProgressText || 'Ready'}`;
+
+		// Update progress bar
+		if (this.plugin.isSyncing) {
+			// Only update the width dynamically
+			this.progressBarEl.style.width = `${this.plugin.syncProgress}%`;
+			this.progressTextEl.textContent = `${this.plugin.syncProgress}%`;
+			
+			// Use class to update text color based on progress
+			if (this.plugin.syncProgress > 50) {
+				this.progressTextEl.classList.add('progress-text-on-accent');
+				this.progressTextEl.classList.remove('progress-text-normal');
+			} else {
+				this.progressTextEl.classList.add('progress-text-normal');
+				this.progressTextEl.classList.remove('progress-text-on-accent');
+			}
+		} else {
+			// Always show the progress bar, but at 100% when not syncing
+			this.progressBarEl.style.width = '100%';
+			if (this.plugin.syncProgressText) {
+				this.progressTextEl.textContent = this.plugin.syncProgressText;
+			} else {
+				this.progressTextEl.textContent = 'Ready';
+			}
+			this.progressTextEl.classList.add('progress-text-normal');
+			this.progressTextEl.classList.remove('progress-text-on-accent');
+		}
+	}
+
+	display(): void {
+		const {containerEl} = this;
+		// Account settings, filters and sync state shown below are those of the selected profile
+		const profile = this.plugin.getSelectedProfile();
+
+		containerEl.empty();
+		containerEl.createEl('h1', {text: 'Limitless Settings'});
+		containerEl.createEl('p', {text: 'Configure your Limitless plugin settings below.'});
+
+		// ==========================================
+		// Section 1: Profile & API Configuration
+		// ==========================================
+		containerEl.createEl('h3', {text: 'Profile & API Configuration'});
+		containerEl.createEl('p', {
+			text: 'Each profile is a Limitless account with its own API key, output folder, filters and sync state. Syncs go through all enabled profiles one after another.',
+			cls: 'setting-item-description'
+		});
+
+		// Add profile selector
+		const profileSetting = new Setting(containerEl)
+			.setName('Profile')
+			.setDesc('The profile whose settings are shown below. The status bar shows its sync status.');
+		
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		profileSetting.addDropdown((dropdown: any) => {
+			for (const other of this.plugin.settings.profiles) {
+				dropdown.addOption(other.id, other.name);
+			}
+			dropdown.setValue(profile.id)
+				.onChange(async (value: string) => {
+					const selected = this.plugin.settings.profiles.find(other => other.id === value);
+					if (selected) {
+						await this.plugin.selectProfile(selected);
+					}
+					this.display(); // Refresh the settings display
+				});
+		});
+		
+		profileSetting.addButton((button: any) => button
+			.setButtonText('Remove')
+			.setWarning()
+			.setDisabled(this.plugin.settings.profiles.length <= 1)
+			.onClick(async () => {
+				const confirmed = confirm(`Are you sure you want to remove the profile "${profile.name}"? Its settings and local cache are deleted; its notes stay in the vault.`);
+				if (confirmed && await this.plugin.removeProfile(profile)) {
+					new Notice(`Limitless profile "${profile.name}" removed.`);
+					this.display(); // Refresh the settings display
+				}
+			}));
+		
+		let newProfileName = '';
+		new Setting(containerEl)
+			.setName('Add Profile')
+			.setDesc('Add another Limitless account. Its notes go to a folder of their own by default.')
+			.addText((text: any) => text
+				.setPlaceholder('Profile name, e.g. Work')
+				.onChange((value: string) => {
+					newProfileName = value.trim();
+				}))
+			.addButton((button: any) => button
+				.setButtonText('Add')
+				.onClick(async () => {
+					if (!newProfileName) {
+						new Notice('Please enter a name for the new profile.');
+						return;
+					}
+					const added = await this.plugin.addProfile(newProfileName);
+					await this.plugin.selectProfile(added);
+					this.display(); // Refresh the settings display
+				}));
+
+		new Setting(containerEl)
+			.setName('Profile Name')
+			.setDesc('Labels the profile\'s notes (limitless-profile in the frontmatter, {{profile}} in templates) and the status bar when there\'s more than one profile')
+			.addText((text: any) => text
+				.setValue(profile.name)
+				.onChange(async (value: string) => {
+					if (!value.trim()) return;
+					profile.name = value.trim();
+					await this.plugin.saveSettings();
+				}));
+		
+		const enabledSetting = new Setting(containerEl)
+			.setName('Enabled')
+			.setDesc('Include this profile in scheduled syncs and "Sync Lifelogs"');
+		
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		enabledSetting.addToggle((toggle: any) => toggle
+			.setValue(profile.enabled)
+			.onChange(async (value: boolean) => {
+				profile.enabled = value;
+				await this.plugin.saveSettings();
+			}));
+
+		new Setting(containerEl)
+			.setName('API URL')
+			.setDesc('URL of the Limitless API')
+			.addText((text: any) => text
+				.setPlaceholder('Enter API URL')
+				.setValue(profile.apiUrl)
+				.onChange(async (value: string) => {
+					profile.apiUrl = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('API Key')
+			.setDesc('Your Limitless API Key')
+			.addText((text: any) => text
+				.setPlaceholder('Enter API Key')
+				.setValue(profile.apiKey)
+				.onChange(async (value: string) => {
+					profile.apiKey = value;
+					await this.plugin.saveSettings();
+				}));
+		
+		// Add timezone setting
+		new Setting(containerEl)
+			.setName('Timezone')
+			.setDesc(`IANA timezone (e.g. Europe/Berlin) used for API requests, deciding which day a lifelog belongs to, note names and rendered times. Leave empty to use the system timezone (${getSystemTimezone()}).`)
+			.addText((text: any) => text
+				.setPlaceholder(getSystemTimezone())
+				.setValue(this.plugin.settings.timezone)
+				.onChange(async (value: string) => {
+					const timezone = value.trim();
+					// Only save valid timezones so a half-typed name doesn't affect a running sync
+					if (timezone && !isValidTimezone(timezone)) return;
+					this.plugin.settings.timezone = timezone;
+					await this.plugin.saveSettings();
+				}));
+
+		// ==========================================
+		// Section 2: Output Settings
+		// ==========================================
+		containerEl.createEl('h3', {text: 'Output Settings'});
+		
+		new Setting(containerEl)
+			.setName('Output Folder')
+			.setDesc('Folder where daily notes will be created. Each profile needs a folder of its own.')
+			.addText((text: any) => text
+				.setPlaceholder('Enter folder path')
+				.setValue(profile.outputFolder)
+				.onChange(async (value: string) => {
+					profile.outputFolder = value;
+					await this.plugin.saveSettings();
+				}));
+		
+		const notePathFormatDesc = "Path of each daily note within the output folder, using date-fns tokens. Use '/' for nested folders and quote literal text, e.g. yyyy/MM/yyyy-MM-dd or yyyy/'Week' ww/yyyy-MM-dd.";
+		const notePathFormatSetting = new Setting(containerEl)
+			.setName('Note Path Format')
+			.setDesc(notePathFormatDesc);
+		notePathFormatSetting.addText((text: any) => text
+			.setPlaceholder(DEFAULT_SETTINGS.notePathFormat)
+			.setValue(this.plugin.settings.notePathFormat)
+			.onChange(async (value: string) => {
+				const pathFormat = value.trim() || DEFAULT_SETTINGS.notePathFormat;
+				// Validate the format before saving it, and say why it wasn't saved
+				try {
+					format(new Date(), pathFormat);
+				} catch (error) {
+					notePathFormatSetting.setDesc(`Invalid format, still using ${this.plugin.settings.notePathFormat}: ${error.message}`);
+					return;
+				}
+				notePathFormatSetting.setDesc(notePathFormatDesc);
+				this.plugin.settings.notePathFormat = pathFormat;
+				await this.plugin.saveSettings();
+			}));
+		
+		// Add daily notes integration toggle
+		const dailyNotesSetting = new Setting(containerEl)
+			.setName('Use Daily Notes Settings')
+			.setDesc('Write the Limitless section into your existing daily notes, using the folder, date format and template of the Periodic Notes or core Daily Notes plugin instead of the output folder and path format above');
+		
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		dailyNotesSetting.addToggle((toggle: any) => toggle
+			.setValue(this.plugin.settings.useDailyNotesSettings)
+			.onChange(async (value: boolean) => {
+				this.plugin.settings.useDailyNotesSettings = value;
+				await this.plugin.saveSettings();
+				if (value && !getDailyNotesConfig(this.app)) {
+					new Notice('Neither the Daily Notes nor the Periodic Notes plugin is enabled. Limitless will keep using the output folder until one is.');
+				}
+			}));
+		
+		// Add entry order toggle
+		const orderSetting = new Setting(containerEl)
+			.setName('Entry Order')
+			.setDesc('Choose how new entries are added to daily notes. Lifelogs are fetched from the API in this order.');
+		
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		orderSetting.addDropdown((dropdown: any) => dropdown
+			.addOption('descending', 'Descending (new entries at top)')
+			.addOption('ascending', 'Ascending (new entries at bottom)')
+			.setValue(this.plugin.settings.ascendingOrder ? 'ascending' : 'descending')
+			.onChange(async (value: string) => {
+				this.plugin.settings.ascendingOrder = (value === 'ascending');
+				await this.plugin.saveSettings();
+				new Notice(`Entry order set to ${value}`);
+			}));
+		
+		// Add include headings toggle
+		const headingsSetting = new Setting(containerEl)
+			.setName('Include Headings')
+			.setDesc('Fetch the headings of each lifelog\'s content, such as the conversation\'s topics. Turn off to write only the transcript. Applies to lifelogs as they\'re fetched again, so use Force Sync to apply it to existing notes.');
+		
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		headingsSetting.addToggle((toggle: any) => toggle
+			.setValue(this.plugin.settings.includeHeadings)
+			.onChange(async (value: boolean) => {
+				this.plugin.settings.includeHeadings = value;
+				await this.plugin.saveSettings();
+			}));
+		
+		// Add output mode dropdown
+		const outputModeSetting = new Setting(containerEl)
+			.setName('Output Mode')
+			.setDesc('Write all lifelogs of a day into the daily note, or give each lifelog its own note and make the daily note an index linking to them');
+		
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		outputModeSetting.addDropdown((dropdown: any) => dropdown
+			.addOption('daily', 'One note per day')
+			.addOption('lifelog', 'One note per lifelog with a daily index')
+			.setValue(this.plugin.settings.outputMode)
+			.onChange(async (value: string) => {
+				this.plugin.settings.outputMode = value === 'lifelog' ? 'lifelog' : 'daily';
+				await this.plugin.saveSettings();
+			}));
+		
 		new Setting(containerEl)
-			.setName('API URL')
-			.setDesc('URL of the Limitless API')
+			.setName('Lifelog Folder')
+			.setDesc('Folder for per-lifelog notes, relative to the output folder (only used in one-note-per-lifelog mode)')
 			.addText((text: any) => text
-				.setPlaceholder('Enter API URL')
-				.setValue(this.plugin.settings.apiUrl)
+				.setPlaceholder(DEFAULT_SETTINGS.lifelogFolder)
+				.setValue(this.plugin.settings.lifelogFolder)
 				.onChange(async (value: string) => {
-					this.plugin.settings.apiUrl = value;
+					this.plugin.settings.lifelogFolder = value.trim() || DEFAULT_SETTINGS.lifelogFolder;
 					await this.plugin.saveSettings();
 				}));
-
+		
+		// Add midnight policy dropdown
+		const midnightSetting = new Setting(containerEl)
+			.setName('Lifelogs Past Midnight')
+			.setDesc('Where to write lifelogs that start on one day and end on the next. In one-note-per-lifelog mode both split and reference list the lifelog in the index of both days.');
+		
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		midnightSetting.addDropdown((dropdown: any) => dropdown
+			.addOption('startDay', 'Keep on the day it started')
+			.addOption('split', 'Split at midnight across both days')
+			.addOption('reference', 'Keep on the start day, reference it on the next day')
+			.setValue(this.plugin.settings.midnightPolicy)
+			.onChange(async (value: string) => {
+				this.plugin.settings.midnightPolicy = value as MidnightPolicy;
+				await this.plugin.saveSettings();
+			}));
+		
+		// Add transcript timestamp settings
+		const timestampStyleSetting = new Setting(containerEl)
+			.setName('Transcript Timestamps')
+			.setDesc('Prefix transcript lines with the local clock time (14:03) or the offset into the recording (+02:15), e.g. to match notes with calendar events or recordings');
+		
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		timestampStyleSetting.addDropdown((dropdown: any) => dropdown
+			.addOption('none', 'None')
+			.addOption('clock', 'Clock time')
+			.addOption('offset', 'Offset into the recording')
+			.setValue(this.plugin.settings.timestampStyle)
+			.onChange(async (value: string) => {
+				this.plugin.settings.timestampStyle = value as TimestampStyle;
+				await this.plugin.saveSettings();
+			}));
+		
+		const timestampGranularitySetting = new Setting(containerEl)
+			.setName('Timestamp Frequency')
+			.setDesc('Which transcript lines get a timestamp');
+		
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		timestampGranularitySetting.addDropdown((dropdown: any) => dropdown
+			.addOption('utterance', 'Every line')
+			.addOption('interval', 'Every few minutes')
+			.addOption('speaker', 'When the speaker changes')
+			.setValue(this.plugin.settings.timestampGranularity)
+			.onChange(async (value: string) => {
+				this.plugin.settings.timestampGranularity = value as TimestampGranularity;
+				await this.plugin.saveSettings();
+			}));
+		
 		new Setting(containerEl)
-			.setName('API Key')
-			.setDesc('Your Limitless API Key')
+			.setName('Timestamp Interval (minutes)')
+			.setDesc('Minutes between timestamps when the frequency is "Every few minutes"')
+			.addSlider((slider: any) => slider
+				.setLimits(1, 30, 1)
+				.setValue(this.plugin.settings.timestampIntervalMinutes)
+				.setDynamicTooltip()
+				.onChange(async (value: number) => {
+					this.plugin.settings.timestampIntervalMinutes = value;
+					await this.plugin.saveSettings();
+				}));
+		
+		// Add frontmatter toggle
+		const frontmatterSetting = new Setting(containerEl)
+			.setName('Add Frontmatter')
+			.setDesc('Add lifelog metadata (date, lifelog ids, count, first/last timestamps, recorded duration, speakers, sync time) to the frontmatter of generated notes. Your own frontmatter keys are kept.');
+		
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		frontmatterSetting.addToggle((toggle: any) => toggle
+			.setValue(this.plugin.settings.addFrontmatter)
+			.onChange(async (value: boolean) => {
+				this.plugin.settings.addFrontmatter = value;
+				await this.plugin.saveSettings();
+			}));
+		
+		new Setting(containerEl)
+			.setName('Daily Note Template')
+			.setDesc('Vault path of a template for each daily note. Variables: {{date}}, {{count}}, {{entries}} and a {{#each lifelogs}} loop. Leave empty for the built-in template.')
 			.addText((text: any) => text
-				.setPlaceholder('Enter API Key')
-				.setValue(this.plugin.settings.apiKey)
+				.setPlaceholder('Templates/Limitless Day.md')
+				.setValue(this.plugin.settings.dailyNoteTemplatePath)
 				.onChange(async (value: string) => {
-					this.plugin.settings.apiKey = value;
+					this.plugin.settings.dailyNoteTemplatePath = value.trim();
 					await this.plugin.saveSettings();
 				}));
 		
-		// Add timezone setting
-		const timezoneSetting = new Setting(containerEl)
-			.setName('Use System Timezone')
-			.setDesc('Send your system timezone to the Limitless API to ensure data is returned in your local time');
+		new Setting(containerEl)
+			.setName('Lifelog Template')
+			.setDesc('Vault path of a template for each lifelog section. Variables: {{title}}, {{date}}, {{startTime}}, {{endTime}}, {{duration}}, {{id}}, {{speakers}}, {{body}}; blocks: {{#if}}, {{#unless}}, {{#each}}. Leave empty for the built-in template.')
+			.addText((text: any) => text
+				.setPlaceholder('Templates/Limitless Lifelog.md')
+				.setValue(this.plugin.settings.lifelogTemplatePath)
+				.onChange(async (value: string) => {
+					this.plugin.settings.lifelogTemplatePath = value.trim();
+					await this.plugin.saveSettings();
+				}));
+		
+		// ==========================================
+		// Section 3: Speakers
+		// ==========================================
+		containerEl.createEl('h3', {text: 'Speakers'});
+		
+		new Setting(containerEl)
+			.setName('Your Name')
+			.setDesc('Speaker label for you in transcripts')
+			.addText((text: any) => text
+				.setPlaceholder(DEFAULT_SETTINGS.userSpeakerName)
+				.setValue(this.plugin.settings.userSpeakerName)
+				.onChange(async (value: string) => {
+					this.plugin.settings.userSpeakerName = value.trim() || DEFAULT_SETTINGS.userSpeakerName;
+					await this.plugin.saveSettings();
+				}));
+		
+		// Add speaker linking toggle
+		const linkSpeakersSetting = new Setting(containerEl)
+			.setName('Link Speakers')
+			.setDesc('Turn speaker names into [[wikilinks]] to person notes, so conversations show up in each person\'s backlinks. You and unidentified speakers are never linked.');
 		
 		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
-		timezoneSetting.addToggle((toggle: any) => toggle
-			.setValue(this.plugin.settings.useSystemTimezone)
+		linkSpeakersSetting.addToggle((toggle: any) => toggle
+			.setValue(this.plugin.settings.linkSpeakers)
 			.onChange(async (value: boolean) => {
-				this.plugin.settings.useSystemTimezone = value;
+				this.plugin.settings.linkSpeakers = value;
 				await this.plugin.saveSettings();
-				const timezone = value ? Intl.DateTimeFormat().resolvedOptions().timeZone : 'UTC';
-				new Notice(`Timezone setting ${value ? 'enabled' : 'disabled'}. Using ${timezone}.`);
 			}));
-
+		
+		new Setting(containerEl)
+			.setName('People Folder')
+			.setDesc('Folder of your person notes that speaker links point to. Leave empty to link by name only.')
+			.addText((text: any) => text
+				.setPlaceholder('People')
+				.setValue(this.plugin.settings.peopleFolder)
+				.onChange(async (value: string) => {
+					this.plugin.settings.peopleFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+		
+		new Setting(containerEl)
+			.setName('Speaker Names')
+			.setDesc('Map speaker names from Limitless, like "Unknown Speaker 2", to real people. Applies to notes written from now on; use Re-render Notes to update existing notes.')
+			.addButton((button: any) => button
+				.setButtonText('Add Unmapped Speakers')
+				.onClick(async () => {
+					const added = this.plugin.addUnmappedSpeakers();
+					await this.plugin.saveSettings();
+					new Notice(added > 0 ? `Added ${added} speakers from the local cache` : 'All speakers in the local cache are already mapped');
+					this.display();
+				}))
+			.addButton((button: any) => button
+				.setButtonText('Add Mapping')
+				.onClick(async () => {
+					this.plugin.settings.speakerMappings.push({ speaker: '', name: '' });
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+		
+		this.plugin.settings.speakerMappings.forEach((mapping, index) => {
+			new Setting(containerEl)
+				.addText((text: any) => text
+					.setPlaceholder('Speaker name in Limitless')
+					.setValue(mapping.speaker)
+					.onChange(async (value: string) => {
+						mapping.speaker = value;
+						await this.plugin.saveSettings();
+					}))
+				.addText((text: any) => text
+					.setPlaceholder('Real name')
+					.setValue(mapping.name)
+					.onChange(async (value: string) => {
+						mapping.name = value;
+						await this.plugin.saveSettings();
+					}))
+				.addButton((button: any) => button
+					.setButtonText('Remove')
+					.onClick(async () => {
+						this.plugin.settings.speakerMappings.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+		
 		// ==========================================
-		// Section 2: Output Settings
+		// Section 4: Filters
 		// ==========================================
-		containerEl.createEl('h3', {text: 'Output Settings'});
+		containerEl.createEl('h3', {text: 'Filters'});
+		
+		const filters = profile.filters;
 		
 		new Setting(containerEl)
-			.setName('Output Folder')
-			.setDesc('Folder where daily notes will be created')
+			.setName('Minimum Duration (seconds)')
+			.setDesc('Skip lifelogs shorter than this. 0 keeps all lifelogs.')
 			.addText((text: any) => text
-				.setPlaceholder('Enter folder path')
-				.setValue(this.plugin.settings.outputFolder)
+				.setPlaceholder('0')
+				.setValue(String(filters.minDurationSeconds))
 				.onChange(async (value: string) => {
-					this.plugin.settings.outputFolder = value;
+					const seconds = parseInt(value, 10);
+					filters.minDurationSeconds = isNaN(seconds) || seconds < 0 ? 0 : seconds;
 					await this.plugin.saveSettings();
 				}));
 		
-		// Add entry order toggle
-		const orderSetting = new Setting(containerEl)
-			.setName('Entry Order')
-			.setDesc('Choose how new entries are added to daily notes');
+		new Setting(containerEl)
+			.setName('Minimum Utterances')
+			.setDesc('Skip lifelogs with fewer transcript lines than this. 0 keeps all lifelogs.')
+			.addText((text: any) => text
+				.setPlaceholder('0')
+				.setValue(String(filters.minUtterances))
+				.onChange(async (value: string) => {
+					const count = parseInt(value, 10);
+					filters.minUtterances = isNaN(count) || count < 0 ? 0 : count;
+					await this.plugin.saveSettings();
+				}));
+		
+		// Add exclude patterns text area
+		const excludePatternsSetting = new Setting(containerEl)
+			.setName('Exclude Patterns')
+			.setDesc('Skip lifelogs whose title or transcript matches one of these regular expressions (one per line, case-insensitive)');
 		
 		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
-		orderSetting.addDropdown((dropdown: any) => dropdown
-			.addOption('descending', 'Descending (new entries at top)')
-			.addOption('ascending', 'Ascending (new entries at bottom)')
-			.setValue(this.plugin.settings.ascendingOrder ? 'ascending' : 'descending')
+		excludePatternsSetting.addTextArea((text: any) => text
+			.setPlaceholder('standup\n^Ad break')
+			.setValue(filters.excludePatterns)
 			.onChange(async (value: string) => {
-				this.plugin.settings.ascendingOrder = (value === 'ascending');
+				// Only save valid patterns so a half-typed regex doesn't affect a running sync
+				try {
+					parsePatterns(value);
+				} catch (error) {
+					return;
+				}
+				filters.excludePatterns = value;
+				await this.plugin.saveSettings();
+			}));
+		
+		// Add user speaker toggle
+		const requireUserSetting = new Setting(containerEl)
+			.setName('Only When I Speak')
+			.setDesc('Skip lifelogs in which you don\'t speak, such as overheard conversations or media playing in the background');
+		
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		requireUserSetting.addToggle((toggle: any) => toggle
+			.setValue(filters.requireUserSpeaker)
+			.onChange(async (value: boolean) => {
+				filters.requireUserSpeaker = value;
+				await this.plugin.saveSettings();
+			}));
+		
+		// Add skipped time windows text area
+		const skipWindowsSetting = new Setting(containerEl)
+			.setName('Skip Time Windows')
+			.setDesc('Skip lifelogs that start within these times, one window per line, e.g. "Mon-Fri 09:00-17:00" or "22:00-06:00"');
+		
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		skipWindowsSetting.addTextArea((text: any) => text
+			.setPlaceholder('Mon-Fri 09:00-17:00')
+			.setValue(filters.skipWindows)
+			.onChange(async (value: string) => {
+				// Only save valid windows so a half-typed window doesn't affect a running sync
+				try {
+					parseTimeWindows(value);
+				} catch (error) {
+					return;
+				}
+				filters.skipWindows = value;
+				await this.plugin.saveSettings();
+			}));
+		
+		let filterPreviewEl: HTMLElement | null = null;
+		new Setting(containerEl)
+			.setName('Preview Filters')
+			.setDesc('Show which lifelogs of the most recent synced day the rules above would skip (from the local cache)')
+			.addButton((button: any) => button
+				.setButtonText('Preview')
+				.onClick(() => {
+					if (!filterPreviewEl) return;
+					filterPreviewEl.empty();
+					
+					try {
+						const preview = this.plugin.previewLifelogFilters();
+						if (!preview.day) {
+							filterPreviewEl.createEl('p', { text: 'The local cache is empty. Sync first to preview the filters.' });
+							return;
+						}
+						
+						filterPreviewEl.createEl('p', { text: `${preview.day}: ${preview.excluded.length} of ${preview.total} lifelogs would be skipped` });
+						const list = filterPreviewEl.createEl('ul');
+						for (const { lifelog, reason } of preview.excluded) {
+							const { start } = getLifelogTimeRange(lifelog);
+							const time = start ? `${formatZonedTime(start, this.plugin.getTimezone())} ` : '';
+							list.createEl('li', { text: `${time}${lifelog.title || lifelog.id} (${reason})` });
+						}
+					} catch (error) {
+						filterPreviewEl.createEl('p', { text: `Invalid filter rules: ${error.message}` });
+					}
+				}));
+		filterPreviewEl = containerEl.createEl('div', { cls: 'limitless-settings-report' });
+		
+		// ==========================================
+		// Section 5: Privacy
+		// ==========================================
+		containerEl.createEl('h3', {text: 'Privacy'});
+		
+		const redaction = this.plugin.settings.redaction;
+		
+		// Add redaction toggle
+		const redactionSetting = new Setting(containerEl)
+			.setName('Redact Sensitive Content')
+			.setDesc('Redact the detectors, patterns and keywords below from transcripts and titles before they are written to your vault. The local cache in the plugin folder keeps the original content.');
+		
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		redactionSetting.addToggle((toggle: any) => toggle
+			.setValue(redaction.enabled)
+			.onChange(async (value: boolean) => {
+				redaction.enabled = value;
+				await this.plugin.saveSettings();
+			}));
+		
+		// Add redaction mode dropdown
+		const redactionModeSetting = new Setting(containerEl)
+			.setName('Redaction Mode')
+			.setDesc('Mask replaces a match with a label like [email]. Hash replaces it with a label and a salted hash, so the same value can still be recognised across notes. Drop removes the whole transcript line.');
+		
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		redactionModeSetting.addDropdown((dropdown: any) => dropdown
+			.addOption('mask', 'Mask')
+			.addOption('hash', 'Hash')
+			.addOption('drop', 'Drop the line')
+			.setValue(redaction.mode)
+			.onChange(async (value: string) => {
+				redaction.mode = value as RedactionMode;
+				await this.plugin.saveSettings();
+			}));
+		
+		(Object.keys(BUILT_IN_DETECTOR_NAMES) as BuiltInDetector[]).forEach(detector => {
+			const detectorSetting = new Setting(containerEl)
+				.setName(BUILT_IN_DETECTOR_NAMES[detector]);
+			
+			// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+			detectorSetting.addToggle((toggle: any) => toggle
+				.setValue(redaction.detectors.includes(detector))
+				.onChange(async (value: boolean) => {
+					redaction.detectors = redaction.detectors.filter(existing => existing !== detector);
+					if (value) {
+						redaction.detectors.push(detector);
+					}
+					await this.plugin.saveSettings();
+				}));
+		});
+		
+		// Add custom redaction patterns text area
+		const redactionPatternsSetting = new Setting(containerEl)
+			.setName('Redaction Patterns')
+			.setDesc('Your own regular expressions to redact, one per line (case-insensitive)');
+		
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		redactionPatternsSetting.addTextArea((text: any) => text
+			.setPlaceholder('ACME-\\d{6}')
+			.setValue(redaction.customPatterns)
+			.onChange(async (value: string) => {
+				// Only save valid patterns so a half-typed regex doesn't affect a running sync
+				try {
+					parseRedactionPatterns(value);
+				} catch (error) {
+					return;
+				}
+				redaction.customPatterns = value;
+				await this.plugin.saveSettings();
+			}));
+		
+		// Add redaction keywords text area
+		const redactionKeywordsSetting = new Setting(containerEl)
+			.setName('Redaction Keywords')
+			.setDesc('Words or phrases to redact, one per line (case-insensitive), e.g. names of people who haven\'t agreed to be recorded');
+		
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		redactionKeywordsSetting.addTextArea((text: any) => text
+			.setPlaceholder('Jane Doe')
+			.setValue(redaction.keywords)
+			.onChange(async (value: string) => {
+				redaction.keywords = value;
 				await this.plugin.saveSettings();
-				new Notice(`Entry order set to ${value}`);
 			}));
 		
+		let redactionReportEl: HTMLElement | null = null;
+		new Setting(containerEl)
+			.setName('Redaction Report')
+			.setDesc('Show how many redactions were made per day in the last sync or re-render. Use Re-render Notes to apply changed redaction settings to existing notes.')
+			.addButton((button: any) => button
+				.setButtonText('Show Report')
+				.onClick(() => {
+					if (!redactionReportEl) return;
+					redactionReportEl.empty();
+					
+					const days = Array.from(this.plugin.redactionReport.keys()).sort();
+					if (days.length === 0) {
+						redactionReportEl.createEl('p', { text: 'Nothing was redacted in the last sync.' });
+						return;
+					}
+					
+					const list = redactionReportEl.createEl('ul');
+					for (const day of days) {
+						const counts = this.plugin.redactionReport.get(day) || {};
+						const details = Object.keys(counts).map(detector => `${detector} ${counts[detector]}`).join(', ');
+						list.createEl('li', { text: `${day}: ${countRedactions(counts)} (${details})` });
+					}
+				}));
+		redactionReportEl = containerEl.createEl('div', { cls: 'limitless-settings-report' });
+		
 		// ==========================================
-		// Section 3: Sync Settings
+		// Section 6: Sync Settings
 		// ==========================================
 		containerEl.createEl('h3', {text: 'Sync Settings'});
 		
@@ -1145,29 +2917,88 @@ class LimitlessSettingTab extends PluginSettingTab {
 					this.plugin.initializeSyncInterval();
 				}));
 		
+		// Add request pacing settings, shared by all API calls
+		new Setting(containerEl)
+			.setName('Max Concurrent Requests')
+			.setDesc('How many API requests may run at once, which is also how many days are fetched in parallel')
+			.addSlider((slider: any) => slider
+				.setLimits(1, 10, 1)
+				.setValue(this.plugin.settings.maxConcurrentRequests)
+				.setDynamicTooltip()
+				.onChange(async (value: number) => {
+					this.plugin.settings.maxConcurrentRequests = value;
+					await this.plugin.saveSettings();
+					this.plugin.rateLimiter.configure(this.plugin.getRateLimiterOptions());
+				}));
+		
+		new Setting(containerEl)
+			.setName('Requests per Minute')
+			.setDesc('Maximum API request rate. When the API reports a rate limit, all requests pause and the rate is lowered temporarily.')
+			.addSlider((slider: any) => slider
+				.setLimits(10, 180, 10)
+				.setValue(this.plugin.settings.requestsPerMinute)
+				.setDynamicTooltip()
+				.onChange(async (value: number) => {
+					this.plugin.settings.requestsPerMinute = value;
+					await this.plugin.saveSettings();
+					this.plugin.rateLimiter.configure(this.plugin.getRateLimiterOptions());
+				}));
+		
+		new Setting(containerEl)
+			.setName('Page Size')
+			.setDesc(`Lifelogs fetched per API request (at most ${MAX_PAGE_SIZE}). Smaller pages make each request faster but need more of them.`)
+			.addSlider((slider: any) => slider
+				.setLimits(1, MAX_PAGE_SIZE, 1)
+				.setValue(this.plugin.settings.pageSize)
+				.setDynamicTooltip()
+				.onChange(async (value: number) => {
+					this.plugin.settings.pageSize = value;
+					await this.plugin.saveSettings();
+				}));
+		
 		// Add start date setting
 		new Setting(containerEl)
 			.setName('Limitless Start Date')
 			.setDesc('When you started using Limitless (used for full syncs)')
 			.addText((text: any) => {
 				text.inputEl.type = 'date';
-				text.setValue(this.plugin.settings.startDate)
+				text.setValue(profile.startDate)
 					.onChange(async (value: string) => {
 						// Validate date format
 						if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
-							this.plugin.settings.startDate = value;
+							profile.startDate = value;
 							await this.plugin.saveSettings();
 						}
 					});
 			});
 
-		// Add last sync timestamp display with formatted time
-		const lastSyncSetting = new Setting(containerEl).setName('Last Sync');
+		// Add date sync overwrite toggle
+		const dateSyncOverwriteSetting = new Setting(containerEl)
+			.setName('Overwrite on Date Sync')
+			.setDesc('Whether the "Sync today", "Sync yesterday", "Sync date…" and "Sync range…" commands rewrite notes from scratch instead of merging into the Limitless section. The date picker lets you change this for each sync.');
+		
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		dateSyncOverwriteSetting.addToggle((toggle: any) => toggle
+			.setValue(this.plugin.settings.dateSyncOverwrite)
+			.onChange(async (value: boolean) => {
+				this.plugin.settings.dateSyncOverwrite = value;
+				await this.plugin.saveSettings();
+			}));
+		
+		new Setting(containerEl)
+			.setName('Sync History')
+			.setDesc('Past syncs with their days, lifelogs, retries and errors, and an action to retry the days that failed')
+			.addButton((button: any) => button
+				.setButtonText('Show History')
+				.onClick(() => this.plugin.openSyncHistory()));
+		
+		// Add last sync timestamp (high-water mark) display with formatted time
+		const lastSyncSetting = new Setting(containerEl).setName('Synced Up To');
 		
 		// Format the timestamp if it exists
-		if (this.plugin.settings.lastSyncTimestamp) {
+		if (profile.lastSyncTimestamp) {
 			try {
-				const lastSyncDate = new Date(this.plugin.settings.lastSyncTimestamp);
+				const lastSyncDate = new Date(profile.lastSyncTimestamp);
 				const formattedDate = lastSyncDate.toLocaleString(undefined, {
 					year: 'numeric',
 					month: 'long',
@@ -1197,7 +3028,7 @@ class LimitlessSettingTab extends PluginSettingTab {
 				lastSyncSetting.setDesc(`${formattedDate} (${timeAgo})`);
 			} catch (e) {
 				// Fallback if date parsing fails
-				lastSyncSetting.setDesc(this.plugin.settings.lastSyncTimestamp);
+				lastSyncSetting.setDesc(profile.lastSyncTimestamp);
 			}
 		} else {
 			lastSyncSetting.setDesc('Never synced');
@@ -1272,7 +3103,7 @@ class LimitlessSettingTab extends PluginSettingTab {
 			.onClick(async () => {
 				const confirmed = confirm('Are you sure you want to reset the last sync timestamp? This will cause the next sync to fetch all lifelogs.');
 				if (confirmed) {
-					this.plugin.settings.lastSyncTimestamp = '';
+					profile.lastSyncTimestamp = '';
 					await this.plugin.saveSettings();
 					new Notice('Last sync timestamp reset. Next sync will fetch all lifelogs.');
 					this.display(); // Refresh the settings display
@@ -1280,7 +3111,7 @@ class LimitlessSettingTab extends PluginSettingTab {
 			}));
 				
 		// ==========================================
-		// Section 4: Advanced Settings
+		// Section 7: Advanced Settings
 		// ==========================================
 		containerEl.createEl('h3', {text: 'Advanced Settings'});
 		
@@ -1298,16 +3129,62 @@ class LimitlessSettingTab extends PluginSettingTab {
 				new Notice(`Debug mode ${value ? 'enabled' : 'disabled'}`);
 			}));
 
+		// Add local cache controls
+		new Setting(containerEl)
+			.setName('Local Cache')
+			.setDesc(`${this.plugin.getProfileCache(profile).size} lifelogs are cached locally. Re-render rebuilds all notes from the cache without contacting the API, e.g. after changing a template. Clearing the cache makes the next sync rewrite every note it fetches.`)
+			.addButton((button: any) => button
+				.setButtonText('Re-render Notes')
+				.onClick(async () => {
+					await this.plugin.rerenderFromCache();
+					this.updateProgressBar();
+				}))
+			.addButton((button: any) => button
+				.setButtonText('Clear Cache')
+				.setWarning()
+				.onClick(async () => {
+					const confirmed = confirm('Are you sure you want to clear the local lifelog cache? Notes are not affected.');
+					if (confirmed) {
+						this.plugin.getProfileCache(profile).clear();
+						await this.plugin.getProfileCache(profile).save();
+						new Notice('Limitless lifelog cache cleared.');
+						this.display(); // Refresh the settings display
+					}
+				}));
+		
+		// Add unfinished backfill controls
+		const backfillCheckpoint = profile.backfillCheckpoint;
+		if (backfillCheckpoint) {
+			new Setting(containerEl)
+				.setName('Unfinished Backfill')
+				.setDesc(`A backfill didn't finish (${describeBackfill(backfillCheckpoint)}). Resume skips the days that are already done.`)
+				.addButton((button: any) => button
+					.setButtonText('Resume Backfill')
+					.setCta()
+					.onClick(async () => {
+						this.updateProgressBar();
+						await this.plugin.resumeBackfill();
+						this.display(); // Refresh the settings display
+					}))
+				.addButton((button: any) => button
+					.setButtonText('Discard')
+					.setWarning()
+					.onClick(async () => {
+						await this.plugin.discardBackfill();
+						this.display(); // Refresh the settings display
+					}));
+		}
+		
 		// Add Force Sync button with Cancel button and date field
 		let cancelButtonRef: any = null; // Reference to the cancel button
 		let forceSyncStartDateField: HTMLInputElement | null = null; // Reference to the date input field
 		
 		const forceSyncSetting = new Setting(containerEl)
 			.setName('Force Full Sync')
-			.setDesc('Force sync all lifelogs and overwrite existing daily note files. Optional: select a custom start date.')
+			.setDesc('Force sync all lifelogs and overwrite existing daily note files. Optional: select a custom start date. Starting a new force sync replaces any unfinished backfill.')
 			.addText((text: any) => {
 				text.inputEl.type = 'date';
-				text.setPlaceholder(this.plugin.settings.startDate);
+				text.setPlaceholder(profile.startDate);
 				forceSyncStartDateField = text.inputEl;
 				text.inputEl.style.marginRight = '10px';
 				text.inputEl.style.width = '150px';
@@ -1320,7 +3197,7 @@ class LimitlessSettingTab extends PluginSettingTab {
 					const customStartDate = forceSyncStartDateField?.value || null;
 					const startDateMessage = customStartDate 
 						? `from ${customStartDate}` 
-						: `from your configured start date (${this.plugin.settings.startDate})`;
+						: `from your configured start date (${profile.startDate})`;
 					
 					const confirmed = confirm(`WARNING: This will fetch ALL lifelogs ${startDateMessage} and OVERWRITE existing daily note files. This cannot be undone. Are you sure you want to continue?`);
 					if (confirmed) {
@@ -1382,7 +3259,7 @@ class LimitlessSettingTab extends PluginSettingTab {
 		});
 			
 		// ==========================================
-		// Section 5: Sync Status
+		// Section 8: Sync Status
 		// ==========================================
 		containerEl.createEl('h3', {text: 'Sync Status'});
 		
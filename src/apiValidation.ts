@@ -0,0 +1,83 @@
+// Runtime checks of API responses against the schemas generated from openapi.yml (see src/types.ts)
+
+export type Schema =
+	| { type: 'string'; enum?: string[]; nullable?: boolean }
+	| { type: 'integer' | 'number' | 'boolean'; nullable?: boolean }
+	| { type: 'array'; items: Schema; nullable?: boolean }
+	| { type: 'object'; properties: Record<string, Schema>; required: string[]; nullable?: boolean }
+	| { $ref: string };
+
+// A response didn't match the spec. path points at the offending value, e.g. LifelogsResponse.data.lifelogs[2].id
+export class ApiValidationError extends Error {
+	path: string;
+
+	constructor(path: string, expected: string) {
+		super(`Unexpected Limitless API response: ${path} should be ${expected}`);
+		this.name = 'ApiValidationError';
+		this.path = path;
+	}
+}
+
+// Check a value against a schema, resolving references in schemas, and return it typed. Properties
+// the spec doesn't know about are allowed, so new API fields don't break older clients.
+export function validate<T>(value: unknown, schema: Schema, path: string, schemas: Record<string, Schema>): T {
+	check(value, schema, path, schemas);
+	return value as T;
+}
+
+function check(value: any, schema: Schema, path: string, schemas: Record<string, Schema>): void {
+	if ('$ref' in schema) {
+		check(value, schemas[schema.$ref], path, schemas);
+		return;
+	}
+	if (value === null && schema.nullable) {
+		return;
+	}
+
+	switch (schema.type) {
+		case 'string':
+			if (typeof value !== 'string') {
+				throw new ApiValidationError(path, 'a string');
+			}
+			if (schema.enum && !schema.enum.includes(value)) {
+				throw new ApiValidationError(path, `one of ${schema.enum.join(', ')}`);
+			}
+			return;
+		case 'integer':
+			if (typeof value !== 'number' || !Number.isInteger(value)) {
+				throw new ApiValidationError(path, 'an integer');
+			}
+			return;
+		case 'number':
+			if (typeof value !== 'number') {
+				throw new ApiValidationError(path, 'a number');
+			}
+			return;
+		case 'boolean':
+			if (typeof value !== 'boolean') {
+				throw new ApiValidationError(path, 'a boolean');
+			}
+			return;
+		case 'array':
+			if (!Array.isArray(value)) {
+				throw new ApiValidationError(path, 'an array');
+			}
+			value.forEach((item, index) => check(item, schema.items, `${path}[${index}]`, schemas));
+			return;
+		case 'object':
+			if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+				throw new ApiValidationError(path, 'an object');
+			}
+			for (const name of schema.required) {
+				if (value[name] === undefined) {
+					throw new ApiValidationError(`${path}.${name}`, 'present');
+				}
+			}
+			for (const name of Object.keys(schema.properties)) {
+				if (value[name] !== undefined) {
+					check(value[name], schema.properties[name], `${path}.${name}`, schemas);
+				}
+			}
+			return;
+	}
+}
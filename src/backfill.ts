@@ -0,0 +1,35 @@
+// Checkpoint of a day-by-day backfill, so an interrupted or cancelled backfill can be resumed
+// without fetching the days that are already done again
+export interface BackfillCheckpoint {
+	days: string[]; // All days of the backfill, oldest first
+	completedDays: string[];
+	overwrite: boolean;
+	startedAt: string;
+	updatedAt: string;
+}
+
+export function createBackfillCheckpoint(days: string[], overwrite: boolean): BackfillCheckpoint {
+	const now = new Date().toISOString();
+	return { days: [...days], completedDays: [], overwrite, startedAt: now, updatedAt: now };
+}
+
+export function markBackfillDayCompleted(checkpoint: BackfillCheckpoint, day: string): void {
+	if (!checkpoint.completedDays.includes(day)) {
+		checkpoint.completedDays.push(day);
+	}
+	checkpoint.updatedAt = new Date().toISOString();
+}
+
+// Days of the backfill that haven't completed yet, oldest first
+export function getRemainingBackfillDays(checkpoint: BackfillCheckpoint): string[] {
+	const completed = new Set(checkpoint.completedDays);
+	return checkpoint.days.filter(day => !completed.has(day));
+}
+
+// e.g. "2025-01-01 to 2025-03-17, 40 of 76 days done"
+export function describeBackfill(checkpoint: BackfillCheckpoint): string {
+	const first = checkpoint.days[0] || '';
+	const last = checkpoint.days[checkpoint.days.length - 1] || '';
+	const range = first === last ? first : `${first} to ${last}`;
+	return `${range}, ${checkpoint.days.length - getRemainingBackfillDays(checkpoint).length} of ${checkpoint.days.length} days done`;
+}
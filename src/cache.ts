@@ -0,0 +1,181 @@
+import { DataAdapter } from 'obsidian';
+import { Lifelog } from './types';
+
+// A fetched lifelog as remembered between syncs
+export interface CachedLifelog {
+	lifelog: Lifelog;
+	hash: string; // Content hash, used to detect upstream edits
+	day: string; // YYYY-MM-DD day the lifelog was synced under
+	notePath: string | null; // Note the lifelog was last written to
+	fetchedAt: string;
+	updatedAt: string; // When the content last changed
+}
+
+interface LifelogCacheData {
+	version: number;
+	lifelogs: Record<string, CachedLifelog>;
+	completeDays?: string[]; // Days whose lifelogs were all fetched, missing in caches from older versions
+}
+
+// What changed for a day compared to the previous sync
+export interface DayChanges {
+	added: string[];
+	changed: string[];
+	unchanged: string[];
+	removed: CachedLifelog[]; // Cached lifelogs of the day that are no longer returned upstream
+}
+
+const CACHE_VERSION = 1;
+
+// 32-bit FNV-1a hash of a string, as hex
+export function hashString(text: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return ('0000000' + (hash >>> 0).toString(16)).slice(-8);
+}
+
+// Hash of a lifelog's content
+export function hashLifelog(lifelog: Lifelog): string {
+	return hashString(JSON.stringify(lifelog));
+}
+
+// Local store of every fetched lifelog, kept as JSON in the plugin's data folder
+export class LifelogCache {
+	private data: LifelogCacheData = { version: CACHE_VERSION, lifelogs: {} };
+	private dirty: boolean = false;
+
+	constructor(private adapter: DataAdapter, private path: string) {}
+
+	async load(): Promise<void> {
+		if (!(await this.adapter.exists(this.path))) {
+			return;
+		}
+
+		try {
+			const data = JSON.parse(await this.adapter.read(this.path));
+			if (data && data.version === CACHE_VERSION && data.lifelogs) {
+				this.data = data;
+			}
+		} catch (error) {
+			// A corrupt cache only costs a refetch, so start over rather than failing to load
+			console.error('Error loading Limitless lifelog cache:', error);
+		}
+	}
+
+	// Write the cache back to disk if anything changed since the last save
+	async save(): Promise<void> {
+		if (!this.dirty) return;
+
+		this.dirty = false;
+		await this.adapter.write(this.path, JSON.stringify(this.data));
+	}
+
+	get size(): number {
+		return Object.keys(this.data.lifelogs).length;
+	}
+
+	get(id: string): CachedLifelog | null {
+		return this.data.lifelogs[id] || null;
+	}
+
+	entries(): CachedLifelog[] {
+		return Object.keys(this.data.lifelogs).map(id => this.data.lifelogs[id]);
+	}
+
+	// All cached lifelogs synced under a day
+	getDay(day: string): CachedLifelog[] {
+		return this.entries().filter(entry => entry.day === day);
+	}
+
+	// Whether every lifelog of a day is cached, rather than just those of a partial window. Only then can
+	// the day's notes be rendered from the cache alone.
+	isDayComplete(day: string): boolean {
+		return !!this.data.completeDays && this.data.completeDays.includes(day);
+	}
+
+	// Record that every lifelog of a day has been fetched, e.g. by a window covering the whole day
+	markDayComplete(day: string): void {
+		if (this.isDayComplete(day)) return;
+
+		this.data.completeDays = (this.data.completeDays || []).concat(day);
+		this.dirty = true;
+	}
+
+	// All days with cached lifelogs, oldest first
+	getDays(): string[] {
+		const days = new Set(this.entries().map(entry => entry.day));
+		return [...days].sort();
+	}
+
+	// Record the complete list of lifelogs fetched for a day and work out what changed since the
+	// last sync. Cached lifelogs of the day that weren't fetched again were deleted upstream and are dropped.
+	updateDay(day: string, lifelogs: Lifelog[]): DayChanges {
+		const changes = this.mergeDay(day, lifelogs);
+		const fetchedIds = new Set(lifelogs.map(lifelog => lifelog.id));
+
+		for (const cached of this.getDay(day)) {
+			if (!fetchedIds.has(cached.lifelog.id)) {
+				changes.removed.push(cached);
+				delete this.data.lifelogs[cached.lifelog.id];
+			}
+		}
+
+		this.markDayComplete(day);
+		return changes;
+	}
+
+	// Record lifelogs fetched for part of a day (e.g. an incremental window) without
+	// treating the day's other cached lifelogs as deleted
+	mergeDay(day: string, lifelogs: Lifelog[]): DayChanges {
+		const now = new Date().toISOString();
+		const changes: DayChanges = { added: [], changed: [], unchanged: [], removed: [] };
+
+		for (const lifelog of lifelogs) {
+			const hash = hashLifelog(lifelog);
+			const cached = this.data.lifelogs[lifelog.id];
+
+			if (cached && cached.hash === hash && cached.day === day) {
+				changes.unchanged.push(lifelog.id);
+				cached.fetchedAt = now;
+				continue;
+			}
+
+			(cached ? changes.changed : changes.added).push(lifelog.id);
+			this.data.lifelogs[lifelog.id] = {
+				lifelog,
+				hash,
+				day,
+				notePath: cached ? cached.notePath : null,
+				fetchedAt: now,
+				updatedAt: now
+			};
+		}
+
+		this.dirty = true;
+		return changes;
+	}
+
+	setNotePath(id: string, notePath: string): void {
+		const cached = this.data.lifelogs[id];
+		if (cached && cached.notePath !== notePath) {
+			cached.notePath = notePath;
+			this.dirty = true;
+		}
+	}
+
+	// Forget the content hashes of a day so the next sync treats its lifelogs as changed
+	invalidateDay(day: string): void {
+		for (const entry of this.getDay(day)) {
+			entry.hash = '';
+		}
+		this.dirty = true;
+	}
+
+	clear(): void {
+		this.data = { version: CACHE_VERSION, lifelogs: {} };
+		this.dirty = true;
+	}
+}
@@ -0,0 +1,60 @@
+import { App, moment, normalizePath } from 'obsidian';
+
+// Folder/format/template settings of the user's own daily notes
+export interface DailyNotesConfig {
+	source: 'periodic-notes' | 'daily-notes';
+	folder: string;
+	format: string; // Moment.js format, may contain '/' for nested folders
+	template: string; // Vault path of the template file, possibly without extension
+}
+
+const DEFAULT_DAILY_NOTE_FORMAT = 'YYYY-MM-DD';
+
+// Read the daily note settings from the Periodic Notes community plugin (if its daily
+// notes are enabled) or the core Daily Notes plugin. Returns null if neither is active.
+// Both are read through undocumented app internals, so every step is guarded.
+export function getDailyNotesConfig(app: App): DailyNotesConfig | null {
+	const anyApp = app as any;
+
+	const periodicDaily = anyApp.plugins?.getPlugin?.('periodic-notes')?.settings?.daily;
+	if (periodicDaily?.enabled) {
+		return {
+			source: 'periodic-notes',
+			folder: (periodicDaily.folder || '').trim(),
+			format: (periodicDaily.format || '').trim() || DEFAULT_DAILY_NOTE_FORMAT,
+			template: (periodicDaily.template || '').trim()
+		};
+	}
+
+	const dailyNotesPlugin = anyApp.internalPlugins?.getPluginById?.('daily-notes');
+	if (dailyNotesPlugin?.enabled) {
+		const options = dailyNotesPlugin.instance?.options || {};
+		return {
+			source: 'daily-notes',
+			folder: (options.folder || '').trim(),
+			format: (options.format || '').trim() || DEFAULT_DAILY_NOTE_FORMAT,
+			template: (options.template || '').trim()
+		};
+	}
+
+	return null;
+}
+
+// Path of the daily note for a date according to the daily note settings
+export function getDailyNotesPath(config: DailyNotesConfig, date: Date): string {
+	const fileName = moment(date).format(config.format);
+	return normalizePath(config.folder ? `${config.folder}/${fileName}.md` : `${fileName}.md`);
+}
+
+// Apply the variables the core Daily Notes plugin supports in its templates:
+// {{title}}, {{date}}, {{time}} and {{date:FORMAT}} / {{time:FORMAT}}
+export function applyDailyNoteTemplate(template: string, config: DailyNotesConfig, date: Date): string {
+	const title = moment(date).format(config.format).split('/').pop() || '';
+
+	return template
+		.replace(/{{\s*title\s*}}/gi, title)
+		.replace(/{{\s*(date|time)\s*(?::(.*?))?\s*}}/gi, (_match: string, kind: string, customFormat?: string) => {
+			const fallbackFormat = kind.toLowerCase() === 'time' ? 'HH:mm' : config.format;
+			return moment(date).format(customFormat ? customFormat.trim() : fallbackFormat);
+		});
+}
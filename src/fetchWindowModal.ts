@@ -0,0 +1,84 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+
+export interface FetchWindowModalOptions {
+	defaultStart: string; // YYYY-MM-DD HH:mm:SS
+	defaultEnd: string;
+	timezone: string; // Timezone the datetimes are interpreted in, shown to the user
+	onSubmit: (start: string, end: string) => void; // Called with YYYY-MM-DD HH:mm:SS datetimes
+}
+
+const DATETIME_PATTERN = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2})(:\d{2})?$/;
+
+// Datetime picker for fetching the lifelogs that started in an explicit window
+export class FetchWindowModal extends Modal {
+	private start: string;
+	private end: string;
+
+	constructor(app: App, private options: FetchWindowModalOptions) {
+		super(app);
+		this.start = options.defaultStart;
+		this.end = options.defaultEnd;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText('Fetch Limitless time window');
+		contentEl.createEl('p', { text: `Fetches the lifelogs that started in this window (${this.options.timezone}) and merges them into their notes.` });
+
+		new Setting(contentEl)
+			.setName('From')
+			.addText((text: any) => {
+				text.inputEl.type = 'datetime-local';
+				text.inputEl.step = '1';
+				text.setValue(this.start.replace(' ', 'T'))
+					.onChange((value: string) => {
+						this.start = value;
+					});
+			});
+
+		new Setting(contentEl)
+			.setName('To')
+			.addText((text: any) => {
+				text.inputEl.type = 'datetime-local';
+				text.inputEl.step = '1';
+				text.setValue(this.end.replace(' ', 'T'))
+					.onChange((value: string) => {
+						this.end = value;
+					});
+			});
+
+		new Setting(contentEl)
+			.addButton((button: any) => button
+				.setButtonText('Fetch')
+				.setCta()
+				.onClick(() => this.submit()));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private submit(): void {
+		const start = toApiDateTime(this.start);
+		const end = toApiDateTime(this.end);
+
+		if (!start || !end) {
+			new Notice('Please pick a valid start and end time.');
+			return;
+		}
+		if (end <= start) {
+			new Notice('The end time must be after the start time.');
+			return;
+		}
+
+		this.close();
+		this.options.onSubmit(start, end);
+	}
+}
+
+// YYYY-MM-DD HH:mm:SS as the API expects it, from an input value with or without seconds
+function toApiDateTime(value: string): string | null {
+	const match = DATETIME_PATTERN.exec(value.trim());
+	return match ? `${match[1]} ${match[2]}${match[3] || ':00'}` : null;
+}
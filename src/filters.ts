@@ -0,0 +1,207 @@
+import { Lifelog } from './types';
+import { flattenContentNodes } from './renderer';
+import { getLifelogTimeRange } from './lifelogs';
+import { getZonedParts } from './timezone';
+
+// A filter rule decides whether a lifelog is written to the vault. It returns the reason
+// for excluding the lifelog, or null to keep it.
+export interface LifelogFilterRule {
+	name: string;
+	exclude(lifelog: Lifelog): string | null;
+}
+
+export interface LifelogFilterSettings {
+	minDurationSeconds: number; // 0 to keep lifelogs of any length
+	minUtterances: number; // 0 to keep lifelogs without any speech
+	excludePatterns: string; // Regexes matched against the title and content, one per line
+	requireUserSpeaker: boolean; // Only keep lifelogs in which the user speaks
+	skipWindows: string; // Time windows to skip, one per line, e.g. "Mon-Fri 09:00-17:00"
+}
+
+export interface LifelogFilterResult {
+	kept: Lifelog[];
+	excluded: { lifelog: Lifelog; reason: string }[];
+}
+
+// A time window of a week: days are 0 (Sunday) to 6, times are minutes since midnight.
+// Windows with an end before their start run past midnight.
+export interface TimeWindow {
+	days: number[];
+	start: number;
+	end: number;
+	label: string;
+}
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+function parseDay(name: string): number {
+	const index = DAY_NAMES.indexOf(name.trim().slice(0, 3).toLowerCase());
+	if (index === -1) {
+		throw new Error(`Unknown day "${name.trim()}"`);
+	}
+	return index;
+}
+
+// "24:00" is allowed as the end of a day
+function parseTime(time: string): number {
+	const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+	const minutes = match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : -1;
+	if (!match || parseInt(match[2], 10) > 59 || minutes > 24 * 60) {
+		throw new Error(`Invalid time "${time.trim()}", expected HH:MM`);
+	}
+	return minutes;
+}
+
+// Parse days like "Mon-Fri", "Sat,Sun" or "Mon"
+function parseDays(spec: string): number[] {
+	const days: number[] = [];
+	for (const part of spec.split(',')) {
+		const [first, last] = part.split('-');
+		const start = parseDay(first);
+		const end = last !== undefined ? parseDay(last) : start;
+		for (let day = start; ; day = (day + 1) % 7) {
+			if (!days.includes(day)) days.push(day);
+			if (day === end) break;
+		}
+	}
+	return days;
+}
+
+// Parse time windows, one per line, as "[days] HH:MM-HH:MM", e.g. "Mon-Fri 09:00-17:00" or "22:00-06:00".
+// Throws an Error naming the offending line.
+export function parseTimeWindows(text: string): TimeWindow[] {
+	const windows: TimeWindow[] = [];
+
+	for (const rawLine of text.split('\n')) {
+		const line = rawLine.trim();
+		if (!line) continue;
+
+		const match = /^(?:(.+?)\s+)?(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/.exec(line);
+		if (!match) {
+			throw new Error(`Invalid time window "${line}", expected e.g. "Mon-Fri 09:00-17:00"`);
+		}
+
+		try {
+			windows.push({
+				days: match[1] ? parseDays(match[1]) : ALL_DAYS,
+				start: parseTime(match[2]),
+				end: parseTime(match[3]),
+				label: line
+			});
+		} catch (error) {
+			throw new Error(`Invalid time window "${line}": ${error.message}`);
+		}
+	}
+
+	return windows;
+}
+
+// Parse regexes, one per line, matched case-insensitively. Throws an Error naming the offending line.
+export function parsePatterns(text: string): RegExp[] {
+	return text.split('\n')
+		.map(line => line.trim())
+		.filter(line => line.length > 0)
+		.map(line => {
+			try {
+				return new RegExp(line, 'i');
+			} catch (error) {
+				throw new Error(`Invalid pattern "${line}": ${error.message}`);
+			}
+		});
+}
+
+function isInWindow(window: TimeWindow, day: number, minutes: number): boolean {
+	if (window.start <= window.end) {
+		return window.days.includes(day) && minutes >= window.start && minutes < window.end;
+	}
+	// Past midnight: the part after midnight belongs to the window of the previous day
+	return (window.days.includes(day) && minutes >= window.start)
+		|| (window.days.includes((day + 6) % 7) && minutes < window.end);
+}
+
+// Build the rules for the filter settings. Invalid patterns or windows throw an Error.
+export function buildFilterRules(settings: LifelogFilterSettings, timezone: string): LifelogFilterRule[] {
+	const rules: LifelogFilterRule[] = [];
+
+	if (settings.minDurationSeconds > 0) {
+		rules.push({
+			name: 'Minimum duration',
+			exclude: lifelog => {
+				const { start, end } = getLifelogTimeRange(lifelog);
+				const seconds = start && end ? (end.getTime() - start.getTime()) / 1000 : 0;
+				return seconds < settings.minDurationSeconds ? `shorter than ${settings.minDurationSeconds}s` : null;
+			}
+		});
+	}
+
+	if (settings.minUtterances > 0) {
+		rules.push({
+			name: 'Minimum utterances',
+			exclude: lifelog => {
+				const count = flattenContentNodes(lifelog.contents).filter(node => node.type === 'blockquote').length;
+				return count < settings.minUtterances ? `fewer than ${settings.minUtterances} utterances` : null;
+			}
+		});
+	}
+
+	const patterns = parsePatterns(settings.excludePatterns);
+	if (patterns.length > 0) {
+		rules.push({
+			name: 'Excluded patterns',
+			exclude: lifelog => {
+				const text = [lifelog.title || '', ...flattenContentNodes(lifelog.contents).map(node => node.content || '')].join('\n');
+				const pattern = patterns.find(candidate => candidate.test(text));
+				return pattern ? `matches /${pattern.source}/` : null;
+			}
+		});
+	}
+
+	if (settings.requireUserSpeaker) {
+		rules.push({
+			name: 'User speaks',
+			exclude: lifelog => flattenContentNodes(lifelog.contents).some(node => node.speakerIdentifier === 'user')
+				? null
+				: 'you don\'t speak'
+		});
+	}
+
+	const windows = parseTimeWindows(settings.skipWindows);
+	if (windows.length > 0) {
+		rules.push({
+			name: 'Skipped time windows',
+			exclude: lifelog => {
+				const { start } = getLifelogTimeRange(lifelog);
+				if (!start) return null;
+
+				const parts = getZonedParts(start, timezone);
+				const day = new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay();
+				const window = windows.find(candidate => isInWindow(candidate, day, parts.hour * 60 + parts.minute));
+				return window ? `starts within ${window.label}` : null;
+			}
+		});
+	}
+
+	return rules;
+}
+
+// Split lifelogs into the ones to write and the ones excluded by a rule (with the first matching reason)
+export function filterLifelogs(lifelogs: Lifelog[], rules: LifelogFilterRule[]): LifelogFilterResult {
+	const result: LifelogFilterResult = { kept: [], excluded: [] };
+
+	for (const lifelog of lifelogs) {
+		let reason: string | null = null;
+		for (const rule of rules) {
+			reason = rule.exclude(lifelog);
+			if (reason) break;
+		}
+
+		if (reason) {
+			result.excluded.push({ lifelog, reason });
+		} else {
+			result.kept.push(lifelog);
+		}
+	}
+
+	return result;
+}
@@ -0,0 +1,99 @@
+import { parseYaml, stringifyYaml } from 'obsidian';
+import { ContentNode, Lifelog } from './types';
+import { getLifelogSpeakers, getLifelogTimeRange } from './lifelogs';
+import { formatZonedTimestamp } from './timezone';
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)(?:\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+export interface SplitNote {
+	frontmatter: Record<string, any> | null; // null if the note has no (valid) frontmatter
+	body: string;
+}
+
+// Split a note into its parsed YAML frontmatter and the rest of the content
+export function splitFrontmatter(text: string): SplitNote {
+	const match = FRONTMATTER_PATTERN.exec(text);
+	if (!match) {
+		return { frontmatter: null, body: text };
+	}
+
+	let frontmatter: any;
+	try {
+		frontmatter = match[1].trim() ? parseYaml(match[1]) : {};
+	} catch (error) {
+		return { frontmatter: null, body: text };
+	}
+
+	if (!frontmatter || typeof frontmatter !== 'object' || Array.isArray(frontmatter)) {
+		return { frontmatter: null, body: text };
+	}
+
+	return { frontmatter, body: text.slice(match[0].length) };
+}
+
+// Get the frontmatter of a note, or an empty object if it has none
+export function readFrontmatter(text: string): Record<string, any> {
+	return splitFrontmatter(text).frontmatter || {};
+}
+
+// Set frontmatter keys on a note, keeping any other keys the user already has.
+// Notes with frontmatter that can't be parsed are returned unchanged rather than clobbered.
+export function mergeFrontmatter(text: string, values: Record<string, any>): string {
+	const hasFrontmatterBlock = FRONTMATTER_PATTERN.test(text);
+	const { frontmatter, body } = splitFrontmatter(text);
+	if (hasFrontmatterBlock && !frontmatter) {
+		return text;
+	}
+
+	const merged = Object.assign({}, frontmatter || {}, values);
+	return `---\n${stringifyYaml(merged).trim()}\n---\n${body}`;
+}
+
+// Frontmatter key holding the time of the last sync that changed the note
+export const SYNCED_AT_KEY = 'limitless-synced';
+
+// Metadata describing the lifelogs written to a note, for Dataview queries and graph filters
+// Timestamps are written in the given timezone with their UTC offset, e.g. 2025-03-17T14:03:00-07:00
+export function buildLifelogsFrontmatter(date: string, lifelogs: Lifelog[], pluginVersion: string, timezone: string, speakerName?: (node: ContentNode) => string | null, syncedAt: Date = new Date()): Record<string, any> {
+	let first: Date | null = null;
+	let last: Date | null = null;
+	let totalMs = 0;
+	const speakers: string[] = [];
+
+	for (const lifelog of lifelogs) {
+		const { start, end } = getLifelogTimeRange(lifelog);
+		if (start && (!first || start < first)) first = start;
+		if (end && (!last || end > last)) last = end;
+		if (start && end) totalMs += end.getTime() - start.getTime();
+
+		for (const speaker of getLifelogSpeakers(lifelog, speakerName)) {
+			if (!speakers.includes(speaker)) speakers.push(speaker);
+		}
+	}
+
+	return {
+		'limitless-date': date,
+		'limitless-ids': lifelogs.map(lifelog => lifelog.id),
+		'limitless-count': lifelogs.length,
+		'limitless-first': first ? formatZonedTimestamp(first, timezone) : null,
+		'limitless-last': last ? formatZonedTimestamp(last, timezone) : null,
+		'limitless-duration-minutes': Math.round(totalMs / 60000),
+		'limitless-speakers': speakers,
+		[SYNCED_AT_KEY]: formatZonedTimestamp(syncedAt, timezone),
+		'limitless-version': pluginVersion
+	};
+}
+
+// Merge metadata into the next version of a note. The sync timestamp is only bumped when
+// something else changed, so unchanged notes aren't rewritten on every sync.
+export function applyNoteFrontmatter(existing: string | null, next: string, values: Record<string, any>): string {
+	if (existing !== null) {
+		const previousSyncedAt = readFrontmatter(existing)[SYNCED_AT_KEY];
+		if (previousSyncedAt !== undefined) {
+			const unchanged = mergeFrontmatter(next, Object.assign({}, values, { [SYNCED_AT_KEY]: previousSyncedAt }));
+			if (unchanged === existing) return existing;
+		}
+	}
+
+	return mergeFrontmatter(next, values);
+}
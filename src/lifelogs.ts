@@ -0,0 +1,76 @@
+import { ContentNode, Lifelog } from './types';
+import { flattenContentNodes } from './renderer';
+
+export interface LifelogTimeRange {
+	start: Date | null;
+	end: Date | null;
+}
+
+// Find the earliest start and latest end time across all content nodes of a lifelog
+export function getLifelogTimeRange(lifelog: Lifelog): LifelogTimeRange {
+	let start: Date | null = null;
+	let end: Date | null = null;
+
+	for (const node of flattenContentNodes(lifelog.contents)) {
+		if (node.startTime) {
+			const nodeStart = new Date(node.startTime);
+			if (!isNaN(nodeStart.getTime()) && (!start || nodeStart < start)) {
+				start = nodeStart;
+			}
+		}
+		if (node.endTime) {
+			const nodeEnd = new Date(node.endTime);
+			if (!isNaN(nodeEnd.getTime()) && (!end || nodeEnd > end)) {
+				end = nodeEnd;
+			}
+		}
+	}
+
+	// A lifelog without end times ends where it starts
+	if (start && !end) {
+		end = start;
+	}
+
+	return { start, end };
+}
+
+// Collect the distinct speaker names of a lifelog in order of first appearance.
+// `nameOf` maps a node to the name to collect (by default the raw speaker name).
+export function getLifelogSpeakers(lifelog: Lifelog, nameOf: (node: ContentNode) => string | null = node => node.speakerName || null): string[] {
+	const speakers: string[] = [];
+
+	for (const node of flattenContentNodes(lifelog.contents)) {
+		const name = nameOf(node);
+		if (name && !speakers.includes(name)) {
+			speakers.push(name);
+		}
+	}
+
+	return speakers;
+}
+
+// Format a duration in milliseconds as e.g. "1h 5m", "12m" or "45s"
+export function formatDuration(ms: number): string {
+	const totalSeconds = Math.max(0, Math.round(ms / 1000));
+	const hours = Math.floor(totalSeconds / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const seconds = totalSeconds % 60;
+
+	if (hours > 0) {
+		return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+	}
+	if (minutes > 0) {
+		return `${minutes}m`;
+	}
+	return `${seconds}s`;
+}
+
+// Strip characters that aren't allowed in note names or would break wikilinks
+export function sanitizeFileName(name: string, maxLength: number = 100): string {
+	return name
+		.replace(/[\\/:*?"<>|#^[\]]/g, ' ')
+		.replace(/\s+/g, ' ')
+		.trim()
+		.slice(0, maxLength)
+		.trim();
+}
@@ -0,0 +1,103 @@
+import { RequestUrlParam, RequestUrlResponse, requestUrl } from 'obsidian';
+import { ApiValidationError } from './apiValidation';
+import { GetLifelogsParams, Lifelog, LifelogsResponse, validateLifelogsResponse } from './types';
+
+// Largest page of lifelogs the API returns
+export const MAX_PAGE_SIZE = 10;
+
+export interface LimitlessClientOptions {
+	apiUrl: string; // Base URL including the API version, e.g. https://api.limitless.ai/v1
+	apiKey: string;
+	// Sends a request, Obsidian's requestUrl by default. Pass a wrapper to pace, retry or cancel requests.
+	// It should resolve with error responses rather than throw, so the client can report them.
+	request?: (request: RequestUrlParam) => Promise<RequestUrlResponse>;
+}
+
+// The API answered with an error status
+export class LimitlessApiError extends Error {
+	status: number;
+	headers: Record<string, string>;
+
+	constructor(status: number, headers: Record<string, string>, message: string) {
+		super(message);
+		this.name = 'LimitlessApiError';
+		this.status = status;
+		this.headers = headers;
+	}
+}
+
+// Typed client for the Limitless API (see openapi.yml). Responses are validated against the spec
+// before they're returned, so the types can be relied on.
+export class LimitlessClient {
+	private options: LimitlessClientOptions;
+
+	constructor(options: LimitlessClientOptions) {
+		this.options = options;
+	}
+
+	// One page of lifelogs (GET /v1/lifelogs)
+	async getLifelogs(params: GetLifelogsParams = {}): Promise<LifelogsResponse> {
+		const send = this.options.request || requestUrl;
+		const response = await send({
+			url: this.getLifelogsUrl(params),
+			method: 'GET',
+			headers: {
+				'X-API-Key': this.options.apiKey,
+				'Content-Type': 'application/json'
+			},
+			throw: false
+		});
+
+		if (response.status >= 400) {
+			throw new LimitlessApiError(response.status, response.headers, describeErrorResponse(response));
+		}
+
+		let body: unknown;
+		try {
+			body = response.json;
+		} catch (error) {
+			throw new ApiValidationError('LifelogsResponse', 'JSON');
+		}
+		return validateLifelogsResponse(body);
+	}
+
+	// All pages of lifelogs matching the params, following the pagination cursors from params.cursor on
+	async *getLifelogPages(params: GetLifelogsParams = {}): AsyncGenerator<LifelogsResponse> {
+		let cursor = params.cursor;
+		do {
+			const page = await this.getLifelogs(Object.assign({}, params, { cursor }));
+			yield page;
+			cursor = page.meta.lifelogs.nextCursor || undefined;
+		} while (cursor);
+	}
+
+	// All lifelogs matching the params, fetching pages as they're consumed
+	async *getAllLifelogs(params: GetLifelogsParams = {}): AsyncGenerator<Lifelog> {
+		for await (const page of this.getLifelogPages(params)) {
+			for (const lifelog of page.data.lifelogs) {
+				yield lifelog;
+			}
+		}
+	}
+
+	getLifelogsUrl(params: GetLifelogsParams): string {
+		const query = Object.keys(params)
+			.filter(name => params[name as keyof GetLifelogsParams] !== undefined)
+			.map(name => `${name}=${encodeURIComponent(String(params[name as keyof GetLifelogsParams]))}`);
+		return `${this.options.apiUrl.replace(/\/+$/, '')}/lifelogs${query.length > 0 ? '?' + query.join('&') : ''}`;
+	}
+}
+
+// The error message of an error response, e.g. "Limitless API error 400: Invalid date"
+function describeErrorResponse(response: RequestUrlResponse): string {
+	if (response.status === 401) {
+		return 'Authentication failed. Please check your API key.';
+	}
+	let detail = '';
+	try {
+		detail = response.json?.error || '';
+	} catch (error) {
+		detail = response.text || '';
+	}
+	return `Limitless API error ${response.status}${detail ? ': ' + detail : ''}`;
+}
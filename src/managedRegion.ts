@@ -0,0 +1,44 @@
+// The plugin only owns the part of a note between these markers; everything
+// outside of them belongs to the user and is never touched by incremental syncs.
+export const MANAGED_REGION_START = '<!-- limitless:start -->';
+export const MANAGED_REGION_END = '<!-- limitless:end -->';
+
+// Matches a start marker followed by the nearest end marker, without another start marker in between
+const MANAGED_REGION_PATTERN = new RegExp(
+	`${escapeRegExp(MANAGED_REGION_START)}(?:(?!${escapeRegExp(MANAGED_REGION_START)})[\\s\\S])*?${escapeRegExp(MANAGED_REGION_END)}`
+);
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Wrap generated content in the managed region markers
+export function wrapManagedRegion(content: string): string {
+	return `${MANAGED_REGION_START}\n${content.trim()}\n${MANAGED_REGION_END}`;
+}
+
+export function hasManagedRegion(text: string): boolean {
+	return MANAGED_REGION_PATTERN.test(text);
+}
+
+// Get the content currently inside the managed region, or null if the note has none
+export function extractManagedRegion(text: string): string | null {
+	const match = MANAGED_REGION_PATTERN.exec(text);
+	if (!match) return null;
+
+	return match[0].slice(MANAGED_REGION_START.length, match[0].length - MANAGED_REGION_END.length).trim();
+}
+
+// Replace the managed region of an existing note with freshly generated content.
+// Notes without a region (e.g. created before markers existed or by the user) get one appended.
+export function mergeManagedRegion(existing: string, generated: string): string {
+	const region = wrapManagedRegion(generated);
+
+	if (hasManagedRegion(existing)) {
+		// Use a replacer function so `$` sequences in the content aren't interpreted
+		return existing.replace(MANAGED_REGION_PATTERN, () => region);
+	}
+
+	const trimmed = existing.replace(/\s+$/, '');
+	return trimmed ? `${trimmed}\n\n${region}\n` : `${region}\n`;
+}
@@ -0,0 +1,71 @@
+import { ContentNode, Lifelog } from './types';
+import { getLifelogTimeRange } from './lifelogs';
+import { enumerateDays, getZonedDay } from './timezone';
+
+// What to do with lifelogs that start on one day and end on the next:
+//   startDay  - keep the whole lifelog on the day it started
+//   split     - split the content nodes by timestamp across the days, with cross-links
+//   reference - keep the whole lifelog on the start day and add a reference on the next day
+export type MidnightPolicy = 'startDay' | 'split' | 'reference';
+
+// How a day's entry relates to the neighbouring days' notes
+export interface LifelogSpan {
+	continuedFrom?: string; // Link to the previous day's note, if the lifelog started before this day
+	continuesOn?: string; // Link to the next day's note, if the lifelog runs past midnight
+	reference?: boolean; // Only a reference; the lifelog's content lives on the previous day
+}
+
+// Lifelogs are never expected to run for days; this guards against bogus timestamps
+const MAX_SPAN_DAYS = 7;
+
+// The days (YYYY-MM-DD) a lifelog covers in a timezone, from its start to its end
+export function getLifelogDays(lifelog: Lifelog, timezone: string): string[] {
+	const { start, end } = getLifelogTimeRange(lifelog);
+	if (!start) return [];
+
+	const days = enumerateDays(getZonedDay(start, timezone), getZonedDay(end || start, timezone));
+	return days.slice(0, MAX_SPAN_DAYS);
+}
+
+function sliceNodes(nodes: ContentNode[], day: string, timezone: string, inheritedDay: string): ContentNode[] {
+	const sliced: ContentNode[] = [];
+
+	for (const node of nodes) {
+		// Nodes without a start time belong to the same day as their parent
+		const nodeDay = node.startTime ? getZonedDay(new Date(node.startTime), timezone) : inheritedDay;
+		const children = node.children ? sliceNodes(node.children, day, timezone, nodeDay) : [];
+
+		if (nodeDay === day) {
+			const kept: ContentNode = Object.assign({}, node, { children: node.children ? children : undefined });
+			// A parent that ends on a later day ends with its last child of this day instead
+			if (node.children && node.endTime && getZonedDay(new Date(node.endTime), timezone) !== day) {
+				delete kept.endTime;
+				delete kept.endOffsetMs;
+			}
+			sliced.push(kept);
+		} else if (children.length > 0) {
+			// Keep a parent from the other day (e.g. the title heading) as context, but without
+			// its times so it doesn't stretch the duration of this part
+			const context: ContentNode = Object.assign({}, node, { children });
+			delete context.startTime;
+			delete context.endTime;
+			delete context.startOffsetMs;
+			delete context.endOffsetMs;
+			sliced.push(context);
+		}
+	}
+
+	return sliced;
+}
+
+// The part of a lifelog recorded on a given day, or null if nothing was recorded that day
+export function sliceLifelogToDay(lifelog: Lifelog, day: string, timezone: string): Lifelog | null {
+	const { start } = getLifelogTimeRange(lifelog);
+	if (!start) return null;
+
+	const contents = sliceNodes(lifelog.contents || [], day, timezone, getZonedDay(start, timezone));
+	const hasTimedContent = contents.length > 0 && getLifelogTimeRange({ id: lifelog.id, title: lifelog.title, contents }).start !== null;
+	if (!hasTimedContent) return null;
+
+	return Object.assign({}, lifelog, { contents, markdown: null });
+}
@@ -0,0 +1,61 @@
+import { normalizePath } from 'obsidian';
+import { BackfillCheckpoint } from './backfill';
+import { LifelogFilterSettings } from './filters';
+
+// A Limitless account synced into the vault, e.g. a work and a personal pendant: its credentials,
+// where its notes go, which lifelogs it skips and how far it has synced
+export interface LimitlessProfile {
+	id: string; // Never changes, names the profile's cache file and its runs in the sync history
+	name: string; // Label in notes and the status bar when there's more than one profile
+	enabled: boolean; // Synced by scheduled syncs and "Sync Lifelogs"
+	apiUrl: string;
+	apiKey: string;
+	outputFolder: string;
+	startDate: string; // When the account started using Limitless (YYYY-MM-DD)
+	filters: LifelogFilterSettings; // Rules for lifelogs that aren't written to the vault
+	lastSyncTimestamp: string; // High-water mark: end time of the newest lifelog synced incrementally
+	lastSyncCompletedAt: string; // When the last sync finished successfully (ISO timestamp)
+	backfillCheckpoint: BackfillCheckpoint | null; // Progress of an unfinished backfill, to resume it later
+}
+
+// Id of the profile that the settings from before profiles existed are migrated into
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Settings that used to be global and now belong to a profile
+export const PROFILE_SETTING_KEYS: (keyof LimitlessProfile)[] = [
+	'apiUrl', 'apiKey', 'outputFolder', 'startDate', 'filters', 'lastSyncTimestamp', 'lastSyncCompletedAt', 'backfillCheckpoint'
+];
+
+// The default profile, made from the settings of a vault from before profiles existed
+export function migrateLegacyProfile(data: Record<string, any>): Partial<LimitlessProfile> {
+	const profile: Partial<LimitlessProfile> = { id: DEFAULT_PROFILE_ID, name: 'Default' };
+	for (const key of PROFILE_SETTING_KEYS) {
+		if (data[key] !== undefined) {
+			(profile as any)[key] = data[key];
+		}
+	}
+	return profile;
+}
+
+// Fill in missing values of a stored profile, without sharing (and mutating) the defaults
+export function normalizeProfile(stored: Partial<LimitlessProfile>, defaults: Omit<LimitlessProfile, 'id' | 'name'>): LimitlessProfile {
+	const profile: LimitlessProfile = Object.assign({ id: DEFAULT_PROFILE_ID, name: 'Default' }, defaults, stored);
+	profile.filters = Object.assign({}, defaults.filters, stored.filters);
+	return profile;
+}
+
+// An id for a new profile, derived from its name and unique among the existing profiles
+export function createProfileId(name: string, profiles: LimitlessProfile[]): string {
+	const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'profile';
+	let id = base;
+	for (let suffix = 2; profiles.some(profile => profile.id === id); suffix++) {
+		id = `${base}-${suffix}`;
+	}
+	return id;
+}
+
+// Two profiles writing into the same output folder would overwrite each other's notes
+export function findOutputFolderConflict(profile: LimitlessProfile, profiles: LimitlessProfile[]): LimitlessProfile | null {
+	const folder = normalizePath(profile.outputFolder || '/');
+	return profiles.find(other => other.id !== profile.id && normalizePath(other.outputFolder || '/') === folder) || null;
+}
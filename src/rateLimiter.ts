@@ -0,0 +1,167 @@
+import { CancellationToken, SyncCancelledError } from './syncJob';
+
+export interface RateLimiterOptions {
+	maxConcurrent: number; // Requests in flight at once
+	requestsPerMinute: number; // Sustained request rate; bursts of up to maxConcurrent requests are allowed
+}
+
+export interface RateLimiterMetrics {
+	requests: number; // Requests started
+	rateLimited: number; // Responses that asked us to slow down (429)
+	active: number; // Requests in flight
+	queued: number; // Requests waiting for a slot or a token
+	currentRate: number; // Requests per minute allowed right now, lowered after rate limits
+	backoffUntil: number; // Timestamp (ms) until which no request starts, 0 if not backing off
+}
+
+// Central scheduler for API requests. Requests wait for a free concurrency slot and a token from a token
+// bucket. When any request is rate limited, every request pauses (honouring Retry-After) and the rate is
+// halved; it then recovers by one request per minute for every successful request.
+export class RateLimiter {
+	private options: RateLimiterOptions;
+	private tokens: number;
+	private lastRefill: number = Date.now();
+	private currentRate: number;
+	private backoffUntil: number = 0;
+	private active: number = 0;
+	private queue: Array<() => void> = [];
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private requests: number = 0;
+	private rateLimited: number = 0;
+
+	constructor(options: RateLimiterOptions) {
+		this.options = RateLimiter.normalize(options);
+		this.currentRate = this.options.requestsPerMinute;
+		this.tokens = this.options.maxConcurrent;
+	}
+
+	private static normalize(options: RateLimiterOptions): RateLimiterOptions {
+		return {
+			maxConcurrent: Math.max(1, Math.floor(options.maxConcurrent) || 1),
+			requestsPerMinute: Math.max(1, Math.floor(options.requestsPerMinute) || 1)
+		};
+	}
+
+	configure(options: RateLimiterOptions): void {
+		this.options = RateLimiter.normalize(options);
+		this.currentRate = Math.min(this.currentRate, this.options.requestsPerMinute);
+		this.tokens = Math.min(this.tokens, this.options.maxConcurrent);
+		this.pump();
+	}
+
+	// Run a request once a slot and a token are available. Cancelling the sync token while the
+	// request is still queued drops it from the queue and rejects with SyncCancelledError.
+	async schedule<T>(request: () => Promise<T>, cancellation: CancellationToken): Promise<T> {
+		await new Promise<void>((resolve, reject) => {
+			if (cancellation.isCancelled) {
+				reject(new SyncCancelledError());
+				return;
+			}
+			const start = () => {
+				removeListener();
+				resolve();
+			};
+			const removeListener = cancellation.onCancel(() => {
+				const index = this.queue.indexOf(start);
+				if (index > -1) {
+					this.queue.splice(index, 1);
+				}
+				reject(new SyncCancelledError());
+			});
+			this.queue.push(start);
+			this.pump();
+		});
+
+		this.requests++;
+		try {
+			const result = await request();
+			this.currentRate = Math.min(this.options.requestsPerMinute, this.currentRate + 1);
+			return result;
+		} finally {
+			this.active--;
+			this.pump();
+		}
+	}
+
+	// A response asked us to slow down: pause all requests for retryAfterMs and halve the rate
+	backOff(retryAfterMs: number): void {
+		this.rateLimited++;
+		this.currentRate = Math.max(1, Math.floor(this.currentRate / 2));
+		this.backoffUntil = Math.max(this.backoffUntil, Date.now() + retryAfterMs);
+		// Don't let requests burst out as soon as the pause ends
+		this.tokens = 0;
+	}
+
+	resetMetrics(): void {
+		this.requests = 0;
+		this.rateLimited = 0;
+	}
+
+	getMetrics(): RateLimiterMetrics {
+		return {
+			requests: this.requests,
+			rateLimited: this.rateLimited,
+			active: this.active,
+			queued: this.queue.length,
+			currentRate: this.currentRate,
+			backoffUntil: this.backoffUntil > Date.now() ? this.backoffUntil : 0
+		};
+	}
+
+	// Short summary for progress text, e.g. "42 requests, 2 rate limited, 30/min, 3 queued"
+	describe(): string {
+		const metrics = this.getMetrics();
+		const parts = [`${metrics.requests} requests`];
+		if (metrics.rateLimited > 0) {
+			parts.push(`${metrics.rateLimited} rate limited`);
+		}
+		parts.push(`${metrics.currentRate}/min`);
+		if (metrics.queued > 0) {
+			parts.push(`${metrics.queued} queued`);
+		}
+		if (metrics.backoffUntil) {
+			parts.push(`paused ${Math.ceil((metrics.backoffUntil - Date.now()) / 1000)}s`);
+		}
+		return parts.join(', ');
+	}
+
+	private refill(now: number): void {
+		const elapsed = now - this.lastRefill;
+		this.lastRefill = now;
+		this.tokens = Math.min(this.options.maxConcurrent, this.tokens + elapsed * this.currentRate / 60000);
+	}
+
+	// Start queued requests while slots and tokens allow, otherwise wait for the next token or the end of a pause
+	private pump(): void {
+		if (this.timer !== null) return;
+
+		while (this.queue.length > 0) {
+			const now = Date.now();
+			this.refill(now);
+
+			if (now < this.backoffUntil) {
+				this.wait(this.backoffUntil - now);
+				return;
+			}
+			if (this.active >= this.options.maxConcurrent) {
+				return; // A finishing request pumps again
+			}
+			if (this.tokens < 1) {
+				this.wait(Math.ceil((1 - this.tokens) * 60000 / this.currentRate));
+				return;
+			}
+
+			this.tokens--;
+			this.active++;
+			const next = this.queue.shift();
+			if (next) next();
+		}
+	}
+
+	private wait(ms: number): void {
+		this.timer = setTimeout(() => {
+			this.timer = null;
+			this.pump();
+		}, ms);
+	}
+}
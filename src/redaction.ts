@@ -0,0 +1,266 @@
+import { ContentNode, Lifelog } from './types';
+import { hashString } from './cache';
+
+// How a match is redacted: replaced by a label, replaced by a salted hash (so the same value
+// can still be recognised across notes), or by dropping the whole utterance
+export type RedactionMode = 'mask' | 'hash' | 'drop';
+
+export type BuiltInDetector = 'email' | 'phone' | 'creditCard' | 'iban' | 'ssn';
+
+export interface RedactionSettings {
+	enabled: boolean;
+	mode: RedactionMode;
+	detectors: BuiltInDetector[];
+	customPatterns: string; // Regexes, one per line
+	keywords: string; // Words or phrases, one per line
+}
+
+// Number of redactions per detector ('custom' and 'keyword' for the user's own lists)
+export type RedactionCounts = Record<string, number>;
+
+export interface RedactionResult {
+	lifelog: Lifelog;
+	counts: RedactionCounts;
+}
+
+interface Detector {
+	id: string;
+	label: string;
+	pattern: RegExp;
+	validate?: (match: string) => boolean;
+}
+
+// Luhn checksum, to tell card numbers from other long digit runs
+function isValidCardNumber(match: string): boolean {
+	const digits = match.replace(/\D/g, '');
+	if (digits.length < 13 || digits.length > 19) return false;
+
+	let sum = 0;
+	for (let i = 0; i < digits.length; i++) {
+		let digit = parseInt(digits[digits.length - 1 - i], 10);
+		if (i % 2 === 1) {
+			digit *= 2;
+			if (digit > 9) digit -= 9;
+		}
+		sum += digit;
+	}
+	return sum % 10 === 0;
+}
+
+// ISO 13616 mod-97 checksum
+function isValidIban(match: string): boolean {
+	const iban = match.replace(/\s/g, '').toUpperCase();
+	const rearranged = iban.slice(4) + iban.slice(0, 4);
+
+	let remainder = 0;
+	for (const char of rearranged) {
+		const value = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+		for (const digit of value) {
+			remainder = (remainder * 10 + parseInt(digit, 10)) % 97;
+		}
+	}
+	return remainder === 1;
+}
+
+// Dates such as 2025-03-17 or 17.03.2025
+const DATE_PATTERN = /\d{4}[-/.]\d{1,2}[-/.]\d{1,2}|\d{1,2}[-/.]\d{1,2}[-/.]\d{4}/;
+
+// Digit runs only count as a phone number if they look like one: with a country code or an area
+// code in parentheses, or at least ten digits that aren't a date. Plain numbers like 12345678 and
+// dates said next to a number are left alone.
+function isPhoneNumber(match: string): boolean {
+	const digits = match.replace(/\D/g, '').length;
+	if (/^[+(]/.test(match)) return digits >= 7;
+	return digits >= 10 && !DATE_PATTERN.test(match);
+}
+
+// Built-in detectors, in the order they run. Card numbers, IBANs and SSNs go before phone
+// numbers so their digits aren't taken for a phone number first.
+const BUILT_IN_DETECTORS: Record<BuiltInDetector, Detector> = {
+	email: {
+		id: 'email',
+		label: 'email',
+		pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi
+	},
+	iban: {
+		id: 'iban',
+		label: 'IBAN',
+		pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/gi,
+		validate: isValidIban
+	},
+	creditCard: {
+		id: 'creditCard',
+		label: 'card number',
+		pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+		validate: isValidCardNumber
+	},
+	ssn: {
+		id: 'ssn',
+		label: 'SSN',
+		pattern: /\b\d{3}-\d{2}-\d{4}\b/g
+	},
+	phone: {
+		id: 'phone',
+		label: 'phone number',
+		pattern: /(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d(?:[ .-]?\d){6,13}\b/g,
+		validate: isPhoneNumber
+	}
+};
+
+export const BUILT_IN_DETECTOR_NAMES: Record<BuiltInDetector, string> = {
+	email: 'Email addresses',
+	phone: 'Phone numbers',
+	creditCard: 'Credit card numbers',
+	iban: 'IBANs',
+	ssn: 'Social security numbers'
+};
+
+const DETECTOR_ORDER: BuiltInDetector[] = ['email', 'iban', 'creditCard', 'ssn', 'phone'];
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function parseLines(text: string): string[] {
+	return text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+}
+
+// Parse the user's regexes, one per line. Throws an Error naming the offending line.
+export function parseRedactionPatterns(text: string): RegExp[] {
+	return parseLines(text).map(line => {
+		try {
+			return new RegExp(line, 'gi');
+		} catch (error) {
+			throw new Error(`Invalid pattern "${line}": ${error.message}`);
+		}
+	});
+}
+
+export function countRedactions(counts: RedactionCounts): number {
+	return Object.keys(counts).reduce((total, key) => total + counts[key], 0);
+}
+
+// Add the counts of b to a
+export function addRedactionCounts(a: RedactionCounts, b: RedactionCounts): RedactionCounts {
+	for (const key of Object.keys(b)) {
+		a[key] = (a[key] || 0) + b[key];
+	}
+	return a;
+}
+
+// Redacts sensitive content from lifelogs before they are written. The salt keeps hashed values
+// from being reversed by hashing guesses, e.g. every phone number of an area code.
+export class Redactor {
+	private detectors: Detector[];
+
+	// Invalid custom patterns throw an Error
+	constructor(private settings: RedactionSettings, private salt: string) {
+		this.detectors = DETECTOR_ORDER
+			.filter(id => settings.detectors.includes(id))
+			.map(id => BUILT_IN_DETECTORS[id]);
+
+		for (const pattern of parseRedactionPatterns(settings.customPatterns)) {
+			this.detectors.push({ id: 'custom', label: 'redacted', pattern });
+		}
+
+		const keywords = parseLines(settings.keywords);
+		if (keywords.length > 0) {
+			this.detectors.push({
+				id: 'keyword',
+				label: 'redacted',
+				pattern: new RegExp(`(?:^|\\b)(?:${keywords.map(escapeRegExp).join('|')})(?:\\b|$)`, 'gi')
+			});
+		}
+	}
+
+	get isActive(): boolean {
+		return this.settings.enabled && this.detectors.length > 0;
+	}
+
+	private replacement(detector: Detector, match: string): string {
+		if (this.settings.mode === 'hash') {
+			return `[${detector.label}:${hashString(this.salt + match.toLowerCase())}]`;
+		}
+		return `[${detector.label}]`;
+	}
+
+	// Redact a piece of text, adding what was found to counts
+	redactText(text: string, counts: RedactionCounts): string {
+		// Every detector looks at the original text, and a match overlapping an earlier detector's match
+		// is left alone, so later detectors never match what an earlier one put in
+		const matches: { start: number; end: number; replacement: string }[] = [];
+		for (const detector of this.detectors) {
+			detector.pattern.lastIndex = 0;
+			let match: RegExpExecArray | null;
+			while ((match = detector.pattern.exec(text)) !== null) {
+				const start = match.index;
+				const end = start + match[0].length;
+				if (start === end) {
+					detector.pattern.lastIndex++;
+					continue;
+				}
+				if (detector.validate && !detector.validate(match[0])) continue;
+				if (matches.some(other => start < other.end && other.start < end)) continue;
+				counts[detector.id] = (counts[detector.id] || 0) + 1;
+				matches.push({ start, end, replacement: this.replacement(detector, match[0]) });
+			}
+		}
+
+		matches.sort((a, b) => a.start - b.start);
+		let redacted = '';
+		let position = 0;
+		for (const { start, end, replacement } of matches) {
+			redacted += text.slice(position, start) + replacement;
+			position = end;
+		}
+		return redacted + text.slice(position);
+	}
+
+	private redactNodes(nodes: ContentNode[], counts: RedactionCounts): ContentNode[] {
+		const result: ContentNode[] = [];
+
+		for (const node of nodes) {
+			const copy: ContentNode = Object.assign({}, node);
+			// Speaker names end up in labels, {{speakers}} and the frontmatter
+			if (node.speakerName) {
+				copy.speakerName = this.redactText(node.speakerName, counts);
+			}
+			if (node.content) {
+				const nodeCounts: RedactionCounts = {};
+				copy.content = this.redactText(node.content, nodeCounts);
+				addRedactionCounts(counts, nodeCounts);
+
+				// Drop utterances with sensitive content; other nodes (headings) are masked instead
+				if (this.settings.mode === 'drop' && node.type === 'blockquote' && countRedactions(nodeCounts) > 0) {
+					continue;
+				}
+			}
+			if (node.children) {
+				copy.children = this.redactNodes(node.children, counts);
+			}
+			result.push(copy);
+		}
+
+		return result;
+	}
+
+	// A redacted copy of a lifelog: its title, content nodes (with their speaker names) and markdown
+	redactLifelog(lifelog: Lifelog): RedactionResult {
+		const counts: RedactionCounts = {};
+		if (!this.isActive) {
+			return { lifelog, counts };
+		}
+
+		const redacted: Lifelog = Object.assign({}, lifelog, {
+			title: lifelog.title ? this.redactText(lifelog.title, counts) : lifelog.title,
+			contents: this.redactNodes(lifelog.contents || [], counts)
+		});
+
+		// The markdown repeats the content nodes, so its matches aren't counted twice
+		if (lifelog.markdown) {
+			redacted.markdown = this.redactText(lifelog.markdown, {});
+		}
+
+		return { lifelog: redacted, counts };
+	}
+}
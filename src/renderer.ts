@@ -0,0 +1,93 @@
+import { ContentNode, Lifelog } from './types';
+
+// Heading levels for the known heading node types
+const HEADING_LEVELS: Record<string, number> = {
+	heading1: 1,
+	heading2: 2,
+	heading3: 3
+};
+
+export interface RenderOptions {
+	// Label for the speaker of a blockquote, or null for none (defaults to the raw speaker name)
+	speakerLabel?: (node: ContentNode) => string | null;
+	// Timestamp in front of a blockquote, or null for none. Called for each blockquote in document order.
+	timestampLabel?: (node: ContentNode) => string | null;
+}
+
+// Flatten a content tree into a list of nodes in document order
+export function flattenContentNodes(nodes: ContentNode[] | undefined): ContentNode[] {
+	const flattened: ContentNode[] = [];
+	if (!nodes) return flattened;
+
+	for (const node of nodes) {
+		flattened.push(node);
+		if (node.children && node.children.length > 0) {
+			flattened.push(...flattenContentNodes(node.children));
+		}
+	}
+
+	return flattened;
+}
+
+// Render a single node (without its children) into a markdown block
+function renderNode(node: ContentNode, options: RenderOptions): string {
+	const content = (node.content || '').trim();
+	if (!content) return '';
+
+	const headingLevel = HEADING_LEVELS[node.type];
+	if (headingLevel) {
+		// Headings can't span lines, so collapse any line breaks
+		return `${'#'.repeat(headingLevel)} ${content.replace(/\s*\n\s*/g, ' ')}`;
+	}
+
+	if (node.type === 'blockquote') {
+		const speaker = options.speakerLabel ? options.speakerLabel(node) : node.speakerName;
+		const timestamp = options.timestampLabel ? options.timestampLabel(node) : null;
+		const label = speaker ? `**${speaker}**: ` : '';
+		const text = timestamp ? `\`${timestamp}\` ${label}${content}` : `${label}${content}`;
+		return text.split('\n').map(line => `> ${line}`).join('\n');
+	}
+
+	// Unknown (future) node types are rendered as plain paragraphs so no content is lost
+	return content;
+}
+
+// Render a list of content nodes, including nested children, into markdown.
+// Nodes listed in `skip` are left out (their children are still rendered).
+export function renderContentNodes(nodes: ContentNode[] | undefined, skip: ContentNode[] = [], options: RenderOptions = {}): string {
+	const blocks: string[] = [];
+
+	for (const node of flattenContentNodes(nodes)) {
+		if (skip.includes(node)) continue;
+		const block = renderNode(node, options);
+		if (block) {
+			blocks.push(block);
+		}
+	}
+
+	return blocks.join('\n\n');
+}
+
+// Render a lifelog into markdown from its structured contents.
+// Falls back to the server-provided markdown (if it was requested) and then to the title.
+export function renderLifelog(lifelog: Lifelog, options: RenderOptions = {}): string {
+	const rendered = renderContentNodes(lifelog.contents, [], options);
+	if (rendered) return rendered;
+
+	if (lifelog.markdown) return lifelog.markdown.trim();
+
+	return lifelog.title ? `# ${lifelog.title}` : '';
+}
+
+// Render a lifelog's contents without the heading1 node that duplicates its title,
+// for use under a heading generated from the lifelog template
+export function renderLifelogBody(lifelog: Lifelog, options: RenderOptions = {}): string {
+	const title = (lifelog.title || '').trim();
+	const titleNode = flattenContentNodes(lifelog.contents)
+		.find(node => node.type === 'heading1' && (node.content || '').trim() === title);
+
+	const rendered = renderContentNodes(lifelog.contents, titleNode ? [titleNode] : [], options);
+	if (rendered) return rendered;
+
+	return lifelog.markdown ? lifelog.markdown.trim() : '';
+}
@@ -0,0 +1,50 @@
+import { App, Modal, Setting } from 'obsidian';
+
+export interface ResumeBackfillModalOptions {
+	description: string; // Range and progress of the unfinished backfill
+	onResume: () => void;
+	onDiscard: () => void;
+	onLater: () => void; // Also called when the modal is dismissed without a choice
+}
+
+// Offers to resume a backfill that didn't finish, e.g. because Obsidian was closed during it
+export class ResumeBackfillModal extends Modal {
+	private choice: (() => void) | null = null;
+
+	constructor(app: App, private options: ResumeBackfillModalOptions) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText('Resume Limitless backfill?');
+
+		contentEl.createEl('p', {
+			text: `A backfill didn't finish (${this.options.description}). Resuming syncs only the days that aren't done yet.`
+		});
+
+		new Setting(contentEl)
+			.addButton((button: any) => button
+				.setButtonText('Resume')
+				.setCta()
+				.onClick(() => this.choose(this.options.onResume)))
+			.addButton((button: any) => button
+				.setButtonText('Later')
+				.onClick(() => this.choose(this.options.onLater)))
+			.addButton((button: any) => button
+				.setButtonText('Discard')
+				.setWarning()
+				.onClick(() => this.choose(this.options.onDiscard)));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		(this.choice || this.options.onLater)();
+	}
+
+	private choose(callback: () => void): void {
+		this.choice = callback;
+		this.close();
+	}
+}
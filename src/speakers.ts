@@ -0,0 +1,48 @@
+import { ContentNode } from './types';
+import { sanitizeFileName } from './lifelogs';
+
+// Maps a raw speaker name from the API (e.g. "Unknown Speaker 2") to a real person
+export interface SpeakerMapping {
+	speaker: string;
+	name: string;
+}
+
+export interface SpeakerOptions {
+	userName: string; // Label for the user wearing the pendant
+	mappings: SpeakerMapping[];
+	linkSpeakers: boolean; // Turn speaker names into [[wikilinks]] to person notes
+	peopleFolder: string; // Folder of the person notes (empty for links by name only)
+}
+
+// Speakers the API couldn't identify aren't people worth linking to, and neither are redacted names
+const UNKNOWN_SPEAKER_PATTERN = /^unknown speaker\b/i;
+const REDACTED_NAME_PATTERN = /\[[^\]]*\]/;
+
+// The real name of the speaker of a node, or null if the node has no speaker
+export function resolveSpeakerName(node: ContentNode, options: SpeakerOptions): string | null {
+	if (node.speakerIdentifier === 'user') {
+		return options.userName.trim() || 'Me';
+	}
+	if (!node.speakerName) return null;
+
+	const rawName = node.speakerName.trim();
+	const mapping = options.mappings.find(entry => entry.speaker.trim().toLowerCase() === rawName.toLowerCase());
+	return mapping && mapping.name.trim() ? mapping.name.trim() : rawName;
+}
+
+// The label shown for a speaker in transcripts: their name, or a link to their person note.
+// The user is never linked, since every conversation would end up in their backlinks.
+export function formatSpeakerLabel(node: ContentNode, options: SpeakerOptions): string | null {
+	const name = resolveSpeakerName(node, options);
+	if (!name) return null;
+
+	if (!options.linkSpeakers || node.speakerIdentifier === 'user' || UNKNOWN_SPEAKER_PATTERN.test(name) || REDACTED_NAME_PATTERN.test(name)) {
+		return name;
+	}
+
+	const linkName = sanitizeFileName(name);
+	if (!linkName) return name;
+
+	const folder = options.peopleFolder.trim().replace(/^\/+|\/+$/g, '');
+	return folder ? `[[${folder}/${linkName}|${name.replace(/[|\]]/g, ' ')}]]` : `[[${linkName}]]`;
+}
@@ -0,0 +1,50 @@
+// Sync state shown in the status bar
+export interface SyncStatus {
+	isSyncing: boolean;
+	progress: number; // 0-100
+	progressText: string;
+	lastSyncedAt: string; // ISO timestamp of the last successful sync, empty if never synced
+	lastError: string | null; // Error of the last sync, if it failed
+	profileName?: string | null; // Profile the status is of, when there's more than one
+}
+
+// Format the time since an instant as e.g. "just now", "12m ago", "3h ago" or "2d ago"
+export function formatTimeAgo(since: Date, now: Date = new Date()): string {
+	const minutes = Math.floor((now.getTime() - since.getTime()) / 60000);
+	if (minutes < 1) return 'just now';
+	if (minutes < 60) return `${minutes}m ago`;
+
+	const hours = Math.floor(minutes / 60);
+	if (hours < 24) return `${hours}h ago`;
+
+	return `${Math.floor(hours / 24)}d ago`;
+}
+
+// Text and tooltip of the status bar item
+export function getStatusBarText(status: SyncStatus, now: Date = new Date()): { text: string; tooltip: string } {
+	const label = status.profileName ? `Limitless (${status.profileName})` : 'Limitless';
+
+	if (status.isSyncing) {
+		return {
+			text: `${label}: syncing ${status.progress}%`,
+			tooltip: status.progressText || 'Syncing...'
+		};
+	}
+
+	if (status.lastError) {
+		return {
+			text: `${label}: sync failed`,
+			tooltip: status.lastError
+		};
+	}
+
+	if (!status.lastSyncedAt) {
+		return { text: `${label}: not synced yet`, tooltip: 'Click for sync options' };
+	}
+
+	const lastSyncedAt = new Date(status.lastSyncedAt);
+	return {
+		text: `${label}: synced ${formatTimeAgo(lastSyncedAt, now)}`,
+		tooltip: `Last synced ${lastSyncedAt.toLocaleString()}`
+	};
+}
@@ -0,0 +1,97 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+
+export interface SyncDateModalOptions {
+	range: boolean; // Ask for a start and end date instead of a single date
+	defaultDay: string; // YYYY-MM-DD
+	today: string; // Latest day that can be picked
+	overwrite: boolean; // Initial value of the overwrite toggle
+	onSubmit: (startDay: string, endDay: string, overwrite: boolean) => void;
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Date picker for syncing a single day or a range of days
+export class SyncDateModal extends Modal {
+	private startDay: string;
+	private endDay: string;
+	private overwrite: boolean;
+
+	constructor(app: App, private options: SyncDateModalOptions) {
+		super(app);
+		this.startDay = options.defaultDay;
+		this.endDay = options.defaultDay;
+		this.overwrite = options.overwrite;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText(this.options.range ? 'Sync Limitless date range' : 'Sync Limitless date');
+
+		new Setting(contentEl)
+			.setName(this.options.range ? 'From' : 'Date')
+			.addText((text: any) => {
+				text.inputEl.type = 'date';
+				text.inputEl.max = this.options.today;
+				text.setValue(this.startDay)
+					.onChange((value: string) => {
+						this.startDay = value;
+					});
+			});
+
+		if (this.options.range) {
+			new Setting(contentEl)
+				.setName('To')
+				.addText((text: any) => {
+					text.inputEl.type = 'date';
+					text.inputEl.max = this.options.today;
+					text.setValue(this.endDay)
+						.onChange((value: string) => {
+							this.endDay = value;
+						});
+				});
+		}
+
+		// Add overwrite toggle
+		const overwriteSetting = new Setting(contentEl)
+			.setName('Overwrite')
+			.setDesc('Rewrite the notes from scratch instead of merging into the Limitless section. Your own edits outside that section are lost.');
+
+		// @ts-ignore - The Obsidian API has this method but TypeScript doesn't know about it
+		overwriteSetting.addToggle((toggle: any) => toggle
+			.setValue(this.overwrite)
+			.onChange((value: boolean) => {
+				this.overwrite = value;
+			}));
+
+		new Setting(contentEl)
+			.addButton((button: any) => button
+				.setButtonText('Sync')
+				.setCta()
+				.onClick(() => this.submit()));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private submit(): void {
+		const endDay = this.options.range ? this.endDay : this.startDay;
+
+		if (!DAY_PATTERN.test(this.startDay) || !DAY_PATTERN.test(endDay)) {
+			new Notice('Please pick a valid date.');
+			return;
+		}
+		if (endDay < this.startDay) {
+			new Notice('The end date must not be before the start date.');
+			return;
+		}
+		if (endDay > this.options.today) {
+			new Notice('Dates in the future can\'t be synced.');
+			return;
+		}
+
+		this.close();
+		this.options.onSubmit(this.startDay, endDay, this.overwrite);
+	}
+}
@@ -0,0 +1,131 @@
+import { DataAdapter } from 'obsidian';
+import { DEFAULT_PROFILE_ID } from './profiles';
+
+export type SyncMode = 'incremental' | 'force' | 'range' | 'retry' | 'resume' | 'window';
+
+export type SyncRunStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+
+export interface SyncDayError {
+	day: string;
+	error: string;
+	resolved: boolean; // A later sync of the day succeeded
+}
+
+// One sync as remembered in the history
+export interface SyncRun {
+	id: string;
+	profile?: string; // Id of the synced profile, missing in runs from before profiles existed
+	mode: SyncMode;
+	startedAt: string;
+	endedAt: string | null;
+	status: SyncRunStatus;
+	days: number; // Days processed
+	lifelogs: number; // Lifelogs fetched and written
+	retries: number; // API requests retried after a server error or rate limit
+	error: string | null; // Why the sync failed as a whole
+	failedDays: SyncDayError[];
+}
+
+interface SyncHistoryData {
+	version: number;
+	runs: SyncRun[];
+}
+
+const HISTORY_VERSION = 1;
+
+// Persisted history of the most recent syncs, newest first, kept as JSON in the plugin's data folder
+export class SyncHistory {
+	private data: SyncHistoryData = { version: HISTORY_VERSION, runs: [] };
+
+	constructor(private adapter: DataAdapter, private path: string, private maxRuns: number = 50) {}
+
+	async load(): Promise<void> {
+		if (!(await this.adapter.exists(this.path))) {
+			return;
+		}
+
+		try {
+			const data = JSON.parse(await this.adapter.read(this.path));
+			if (data && data.version === HISTORY_VERSION && Array.isArray(data.runs)) {
+				this.data = data;
+			}
+		} catch (error) {
+			console.error('Error loading Limitless sync history:', error);
+		}
+
+		// Runs still marked as running were interrupted, e.g. by closing Obsidian
+		for (const run of this.data.runs) {
+			if (run.status === 'running') {
+				run.status = 'cancelled';
+				run.error = run.error || 'Interrupted';
+			}
+		}
+	}
+
+	async save(): Promise<void> {
+		await this.adapter.write(this.path, JSON.stringify(this.data));
+	}
+
+	get runs(): SyncRun[] {
+		return this.data.runs;
+	}
+
+	start(mode: SyncMode, profile: string): SyncRun {
+		const run: SyncRun = {
+			id: Date.now().toString(36) + Math.random().toString(36).substring(2, 6),
+			profile,
+			mode,
+			startedAt: new Date().toISOString(),
+			endedAt: null,
+			status: 'running',
+			days: 0,
+			lifelogs: 0,
+			retries: 0,
+			error: null,
+			failedDays: []
+		};
+
+		this.data.runs.unshift(run);
+		this.data.runs.splice(this.maxRuns);
+		return run;
+	}
+
+	finish(run: SyncRun, status: SyncRunStatus, error: string | null = null): void {
+		run.status = status;
+		run.error = error;
+		run.endedAt = new Date().toISOString();
+	}
+
+	recordDayError(run: SyncRun, day: string, error: string): void {
+		run.failedDays.push({ day, error, resolved: false });
+	}
+
+	// A day of a profile synced successfully, so earlier failures of it no longer need a retry
+	resolveDay(day: string, profile: string): void {
+		for (const run of this.profileRuns(profile)) {
+			for (const failure of run.failedDays) {
+				if (failure.day === day) {
+					failure.resolved = true;
+				}
+			}
+		}
+	}
+
+	// Days that failed in any remembered sync of a profile and haven't synced successfully since, oldest first
+	getFailedDays(profile: string): string[] {
+		const days = new Set<string>();
+		for (const run of this.profileRuns(profile)) {
+			for (const failure of run.failedDays) {
+				if (!failure.resolved) {
+					days.add(failure.day);
+				}
+			}
+		}
+		return [...days].sort();
+	}
+
+	// Runs without a profile are from before profiles existed and belong to the default profile
+	private profileRuns(profile: string): SyncRun[] {
+		return this.data.runs.filter(run => (run.profile || DEFAULT_PROFILE_ID) === profile);
+	}
+}
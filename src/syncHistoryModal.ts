@@ -0,0 +1,88 @@
+import { App, Modal, Setting } from 'obsidian';
+import { SyncRun } from './syncHistory';
+import { formatDuration } from './lifelogs';
+import { DEFAULT_PROFILE_ID } from './profiles';
+
+const MODE_LABELS: Record<string, string> = {
+	incremental: 'Incremental',
+	force: 'Full sync',
+	range: 'Date range',
+	retry: 'Retry',
+	resume: 'Resumed backfill',
+	window: 'Time window'
+};
+
+// Shows the sync history, newest first, with an action to retry the days that failed
+export class SyncHistoryModal extends Modal {
+	// profileNames maps profile ids to names; runs get a Profile column when it's given
+	constructor(app: App, private runs: SyncRun[], private failedDays: string[], private onRetry: () => void, private profileNames: Record<string, string> | null = null) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText('Limitless sync history');
+
+		new Setting(contentEl)
+			.setName('Failed days')
+			.setDesc(this.failedDays.length > 0
+				? `${this.failedDays.length} days failed and haven't synced since: ${this.failedDays.join(', ')}`
+				: 'No failed days to retry')
+			.addButton((button: any) => button
+				.setButtonText('Retry Failed Days')
+				.setDisabled(this.failedDays.length === 0)
+				.onClick(() => {
+					this.close();
+					this.onRetry();
+				}));
+
+		if (this.runs.length === 0) {
+			contentEl.createEl('p', { text: 'No syncs have run yet.' });
+			return;
+		}
+
+		const table = contentEl.createEl('table', { cls: 'limitless-sync-history' });
+		const header = table.createEl('tr');
+		const columns = ['Started', 'Mode', 'Status', 'Duration', 'Days', 'Lifelogs', 'Retries', 'Errors'];
+		if (this.profileNames) {
+			columns.splice(1, 0, 'Profile');
+		}
+		for (const column of columns) {
+			header.createEl('th', { text: column });
+		}
+
+		for (const run of this.runs) {
+			const row = table.createEl('tr');
+			const startedAt = new Date(run.startedAt);
+			const duration = run.endedAt ? formatDuration(new Date(run.endedAt).getTime() - startedAt.getTime()) : '';
+
+			row.createEl('td', { text: startedAt.toLocaleString() });
+			if (this.profileNames) {
+				const profile = run.profile || DEFAULT_PROFILE_ID;
+				row.createEl('td', { text: this.profileNames[profile] || profile });
+			}
+			row.createEl('td', { text: MODE_LABELS[run.mode] || run.mode });
+			row.createEl('td', { text: run.status });
+			row.createEl('td', { text: duration });
+			row.createEl('td', { text: String(run.days) });
+			row.createEl('td', { text: String(run.lifelogs) });
+			row.createEl('td', { text: String(run.retries) });
+
+			const errorsCell = row.createEl('td');
+			if (run.error) {
+				errorsCell.createEl('div', { text: run.error });
+			}
+			for (const failure of run.failedDays) {
+				errorsCell.createEl('div', {
+					text: `${failure.day}: ${failure.error}${failure.resolved ? ' (synced since)' : ''}`,
+					cls: failure.resolved ? 'limitless-resolved' : ''
+				});
+			}
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,92 @@
+import { LimitlessProfile } from './profiles';
+
+// Thrown by cancellable work once its sync job was cancelled
+export class SyncCancelledError extends Error {
+	constructor() {
+		super('Sync cancelled');
+		this.name = 'SyncCancelledError';
+	}
+}
+
+// Cancellation signal shared by everything a sync job does: requests, retry waits and note writes
+export class CancellationToken {
+	private cancelled: boolean = false;
+	private listeners: Set<() => void> = new Set();
+
+	get isCancelled(): boolean {
+		return this.cancelled;
+	}
+
+	cancel(): void {
+		if (this.cancelled) return;
+		this.cancelled = true;
+		for (const listener of [...this.listeners]) {
+			listener();
+		}
+		this.listeners.clear();
+	}
+
+	throwIfCancelled(): void {
+		if (this.cancelled) {
+			throw new SyncCancelledError();
+		}
+	}
+
+	// Call listener once the token is cancelled. Returns a function that removes the listener.
+	onCancel(listener: () => void): () => void {
+		if (this.cancelled) {
+			listener();
+			return () => {};
+		}
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+}
+
+// Wait for ms milliseconds, or reject with SyncCancelledError as soon as the token is cancelled
+export function sleep(ms: number, token: CancellationToken): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (token.isCancelled) {
+			reject(new SyncCancelledError());
+			return;
+		}
+		const timer = setTimeout(() => {
+			removeListener();
+			resolve();
+		}, ms);
+		const removeListener = token.onCancel(() => {
+			clearTimeout(timer);
+			reject(new SyncCancelledError());
+		});
+	});
+}
+
+// One sync, resync or re-render of a profile. Cancelling it only signals the token; the job has drained
+// once the work that was running has actually stopped, and only then can another job start.
+export class SyncJob {
+	readonly token: CancellationToken = new CancellationToken();
+	readonly drained: Promise<void>;
+	private resolveDrained: () => void;
+
+	// The profile is fixed for the whole job, even if another profile is selected meanwhile
+	constructor(readonly name: string, readonly profile: LimitlessProfile) {
+		this.drained = new Promise(resolve => {
+			this.resolveDrained = resolve;
+		});
+	}
+
+	get isCancelled(): boolean {
+		return this.token.isCancelled;
+	}
+
+	cancel(): void {
+		this.token.cancel();
+	}
+
+	// Called when all work of the job has stopped
+	finish(): void {
+		this.resolveDrained();
+	}
+}
@@ -0,0 +1,26 @@
+import { App, Modal } from 'obsidian';
+
+// Shows the plugin's recent log lines, newest last
+export class SyncLogModal extends Modal {
+	constructor(app: App, private lines: string[]) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText('Limitless sync log');
+
+		if (this.lines.length === 0) {
+			contentEl.createEl('p', { text: 'Nothing has been logged yet.' });
+			return;
+		}
+
+		const logEl = contentEl.createEl('pre', { cls: 'limitless-sync-log' });
+		logEl.setText(this.lines.join('\n'));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
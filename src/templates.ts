@@ -0,0 +1,213 @@
+// Minimal template engine for daily notes and lifelog sections.
+//
+// Supported syntax:
+//   {{name}} / {{a.b}}                 - variable substitution (lists are joined with ", ")
+//   {{#each list}}...{{/each}}         - loop; item fields, {{this}} and {{@index}} are in scope
+//   {{#if name}}...{{else}}...{{/if}}  - conditional (empty strings and lists are falsy)
+//   {{#unless name}}...{{/unless}}     - inverted conditional
+
+export type TemplateValue = string | number | boolean | null | undefined | TemplateContext | TemplateValue[];
+
+export interface TemplateContext {
+	[key: string]: TemplateValue;
+}
+
+// Variables available to the per-lifelog template
+export interface LifelogTemplateContext extends TemplateContext {
+	id: string;
+	title: string;
+	date: string;
+	startTime: string;
+	endTime: string;
+	duration: string;
+	speakers: string[];
+	body: string;
+	link: string; // Link to the lifelog's own note (only in one-note-per-lifelog mode)
+	continuedFrom: string; // Link to the previous day's note, if the lifelog started before midnight
+	continuesOn: string; // Link to the next day's note, if the lifelog runs past midnight
+	reference: boolean; // Only a reference to a lifelog written to the previous day (body is empty)
+	profile: string; // Name of the profile the lifelog was synced from, empty with a single profile
+}
+
+// Variables available to the daily note template
+export interface DayTemplateContext extends TemplateContext {
+	date: string;
+	count: number;
+	lifelogs: LifelogTemplateContext[];
+	entries: string; // All lifelogs rendered with the lifelog template
+	profile: string; // Name of the profile the day was synced from, empty with a single profile
+}
+
+export const DEFAULT_LIFELOG_TEMPLATE = `## {{title}}
+{{#if startTime}}*{{startTime}}{{#if endTime}} – {{endTime}}{{/if}}{{#if duration}} ({{duration}}){{/if}}*{{/if}}
+{{#if speakers}}Speakers: {{speakers}}{{/if}}
+{{#if continuedFrom}}*Continued from {{continuedFrom}}*{{/if}}
+
+{{body}}
+
+{{#if continuesOn}}*Continues on {{continuesOn}}*{{/if}}`;
+
+// Entry template of the daily index note in one-note-per-lifelog mode
+export const DEFAULT_INDEX_ENTRY_TEMPLATE = `- {{#if startTime}}{{startTime}}{{#if endTime}}–{{endTime}}{{/if}} {{/if}}{{link}}{{#if duration}} ({{duration}}){{/if}}{{#if continuedFrom}} (continued from {{continuedFrom}}){{/if}}`;
+
+export const DEFAULT_DAY_TEMPLATE = `# {{date}}
+
+{{entries}}`;
+
+type TemplateNode =
+	| { kind: 'text'; text: string }
+	| { kind: 'variable'; path: string }
+	| { kind: 'each'; path: string; body: TemplateNode[] }
+	| { kind: 'if'; path: string; negate: boolean; body: TemplateNode[]; elseBody: TemplateNode[] };
+
+interface OpenBlock {
+	node: Extract<TemplateNode, { kind: 'each' | 'if' }>;
+	keyword: string;
+	inElse: boolean;
+}
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([^{}]*?)\s*\}\}/g;
+
+// Parse a template string into a tree of nodes
+export function parseTemplate(template: string): TemplateNode[] {
+	const root: TemplateNode[] = [];
+	const stack: OpenBlock[] = [];
+
+	// Nodes are appended to the innermost open block (or its else branch)
+	const current = (): TemplateNode[] => {
+		const top = stack[stack.length - 1];
+		if (!top) return root;
+		if (top.node.kind === 'if' && top.inElse) return top.node.elseBody;
+		return top.node.body;
+	};
+
+	let lastIndex = 0;
+	let match: RegExpExecArray | null;
+	TAG_PATTERN.lastIndex = 0;
+
+	while ((match = TAG_PATTERN.exec(template)) !== null) {
+		if (match.index > lastIndex) {
+			current().push({ kind: 'text', text: template.slice(lastIndex, match.index) });
+		}
+		lastIndex = TAG_PATTERN.lastIndex;
+
+		const [, sigil, expression] = match;
+
+		if (sigil === '#') {
+			const [keyword, path = ''] = expression.split(/\s+/, 2);
+			let node: OpenBlock['node'];
+			if (keyword === 'each') {
+				node = { kind: 'each', path, body: [] };
+			} else if (keyword === 'if' || keyword === 'unless') {
+				node = { kind: 'if', path, negate: keyword === 'unless', body: [], elseBody: [] };
+			} else {
+				throw new Error(`Unknown template block {{#${keyword}}}`);
+			}
+			if (!path) {
+				throw new Error(`Template block {{#${keyword}}} is missing a variable name`);
+			}
+			current().push(node);
+			stack.push({ node, keyword, inElse: false });
+		} else if (sigil === '/') {
+			const top = stack.pop();
+			if (!top || top.keyword !== expression) {
+				throw new Error(`Unexpected {{/${expression}}} in template`);
+			}
+		} else if (expression === 'else') {
+			const top = stack[stack.length - 1];
+			if (!top || top.node.kind !== 'if' || top.inElse) {
+				throw new Error('Unexpected {{else}} in template');
+			}
+			top.inElse = true;
+		} else {
+			current().push({ kind: 'variable', path: expression });
+		}
+	}
+
+	if (lastIndex < template.length) {
+		current().push({ kind: 'text', text: template.slice(lastIndex) });
+	}
+
+	if (stack.length > 0) {
+		throw new Error(`Unclosed {{#${stack[stack.length - 1].keyword}}} block in template`);
+	}
+
+	return root;
+}
+
+function isContext(value: TemplateValue): value is TemplateContext {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Resolve a (dotted) variable path against the scope chain, innermost scope first
+function resolve(path: string, scopes: TemplateContext[]): TemplateValue {
+	const [head, ...rest] = path.split('.');
+
+	let value: TemplateValue = undefined;
+	for (let i = scopes.length - 1; i >= 0; i--) {
+		if (head in scopes[i]) {
+			value = scopes[i][head];
+			break;
+		}
+	}
+
+	for (const key of rest) {
+		if (!isContext(value)) return undefined;
+		value = value[key];
+	}
+
+	return value;
+}
+
+function isTruthy(value: TemplateValue): boolean {
+	if (Array.isArray(value)) return value.length > 0;
+	return !!value;
+}
+
+function stringify(value: TemplateValue): string {
+	if (value === null || value === undefined) return '';
+	if (Array.isArray(value)) return value.map(stringify).filter(item => item).join(', ');
+	if (isContext(value)) return '';
+	return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateContext[]): string {
+	let output = '';
+
+	for (const node of nodes) {
+		switch (node.kind) {
+			case 'text':
+				output += node.text;
+				break;
+			case 'variable':
+				output += stringify(resolve(node.path, scopes));
+				break;
+			case 'each': {
+				const list = resolve(node.path, scopes);
+				if (!Array.isArray(list)) break;
+				list.forEach((item, index) => {
+					const scope: TemplateContext = Object.assign({}, isContext(item) ? item : {}, { this: item, '@index': index });
+					output += renderNodes(node.body, [...scopes, scope]);
+				});
+				break;
+			}
+			case 'if': {
+				const truthy = isTruthy(resolve(node.path, scopes));
+				output += renderNodes(truthy !== node.negate ? node.body : node.elseBody, scopes);
+				break;
+			}
+		}
+	}
+
+	return output;
+}
+
+// Render a template string with the given variables
+export function renderTemplate(template: string, context: TemplateContext): string {
+	return renderNodes(parseTemplate(template), [context]);
+}
+
+// Collapse the runs of blank lines left behind by empty variables and false conditionals
+export function tidyRenderedTemplate(text: string): string {
+	return text.replace(/[ \t]+$/gm, '').replace(/\n{3,}/g, '\n\n').trim();
+}
@@ -0,0 +1,61 @@
+import { ContentNode } from './types';
+import { formatZonedTime } from './timezone';
+
+// Timestamps in front of transcript lines: local clock time (14:03) or offset into the recording (+02:15)
+export type TimestampStyle = 'none' | 'clock' | 'offset';
+
+// Which lines get a timestamp: every utterance, the first one every N minutes, or the first one of each speaker turn
+export type TimestampGranularity = 'utterance' | 'interval' | 'speaker';
+
+export interface TimestampOptions {
+	style: TimestampStyle;
+	granularity: TimestampGranularity;
+	intervalMinutes: number;
+	timezone: string;
+}
+
+function pad(value: number): string {
+	return ('0' + value).slice(-2);
+}
+
+// Format an offset in milliseconds as +MM:SS, or +H:MM:SS from an hour on
+export function formatOffset(ms: number): string {
+	const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+	const hours = Math.floor(totalSeconds / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const seconds = totalSeconds % 60;
+	return hours > 0 ? `+${hours}:${pad(minutes)}:${pad(seconds)}` : `+${pad(minutes)}:${pad(seconds)}`;
+}
+
+// Create a labeller for the utterances of one lifelog, called in document order. It returns the
+// timestamp for an utterance, or null if the utterance shouldn't get one at this granularity.
+// Offsets use the node's startOffsetMs, falling back to the time since lifelogStart.
+export function createTimestampLabeler(options: TimestampOptions, lifelogStart: Date | null): (node: ContentNode) => string | null {
+	let lastStampedAt: number | null = null;
+	let lastSpeaker: string | undefined;
+	const intervalMs = Math.max(1, options.intervalMinutes) * 60 * 1000;
+
+	return (node: ContentNode): string | null => {
+		if (options.style === 'none' || !node.startTime) return null;
+
+		const start = new Date(node.startTime);
+		if (isNaN(start.getTime())) return null;
+
+		const speaker = node.speakerIdentifier === 'user' ? '\u0000user' : (node.speakerName || '');
+		const speakerChanged = speaker !== lastSpeaker;
+		lastSpeaker = speaker;
+
+		if (options.granularity === 'speaker' && !speakerChanged) return null;
+		if (options.granularity === 'interval' && lastStampedAt !== null && start.getTime() - lastStampedAt < intervalMs) return null;
+		lastStampedAt = start.getTime();
+
+		if (options.style === 'clock') {
+			return formatZonedTime(start, options.timezone);
+		}
+
+		const offsetMs = typeof node.startOffsetMs === 'number'
+			? node.startOffsetMs
+			: lifelogStart ? start.getTime() - lifelogStart.getTime() : 0;
+		return formatOffset(offsetMs);
+	};
+}
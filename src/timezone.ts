@@ -0,0 +1,124 @@
+// Timezone helpers built on Intl, so day bucketing, note names and rendered times follow the
+// configured IANA timezone instead of whatever timezone the system happens to be in.
+
+export interface ZonedParts {
+	year: number;
+	month: number; // 1-12
+	day: number;
+	hour: number; // 0-23
+	minute: number;
+	second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+	let formatter = formatters.get(timezone);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone: timezone,
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+			second: '2-digit',
+			hourCycle: 'h23'
+		} as Intl.DateTimeFormatOptions);
+		formatters.set(timezone, formatter);
+	}
+	return formatter;
+}
+
+function pad(value: number, length: number = 2): string {
+	return ('000' + value).slice(-length);
+}
+
+export function getSystemTimezone(): string {
+	return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimezone(timezone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+		return true;
+	} catch (error) {
+		return false;
+	}
+}
+
+// Wall-clock date and time of an instant in a timezone
+export function getZonedParts(date: Date, timezone: string): ZonedParts {
+	const parts: Record<string, number> = {};
+	for (const part of (getFormatter(timezone) as any).formatToParts(date)) {
+		if (part.type !== 'literal') {
+			parts[part.type] = parseInt(part.value, 10);
+		}
+	}
+
+	return {
+		year: parts.year,
+		month: parts.month,
+		day: parts.day,
+		// Some engines render midnight as 24 even with a 23-hour cycle
+		hour: parts.hour === 24 ? 0 : parts.hour,
+		minute: parts.minute,
+		second: parts.second
+	};
+}
+
+// Offset of a timezone from UTC at an instant, in milliseconds (DST aware)
+export function getTimezoneOffsetMs(date: Date, timezone: string): number {
+	const parts = getZonedParts(date, timezone);
+	const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+	return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The day (YYYY-MM-DD) of an instant in a timezone
+export function getZonedDay(date: Date, timezone: string): string {
+	const parts = getZonedParts(date, timezone);
+	return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+}
+
+// The wall-clock time (HH:mm) of an instant in a timezone
+export function formatZonedTime(date: Date, timezone: string): string {
+	const parts = getZonedParts(date, timezone);
+	return `${pad(parts.hour)}:${pad(parts.minute)}`;
+}
+
+// Wall-clock date and time (YYYY-MM-DD HH:mm:SS) of an instant in a timezone
+export function formatZonedDateTime(date: Date, timezone: string): string {
+	const parts = getZonedParts(date, timezone);
+	return `${parts.year}-${pad(parts.month)}-${pad(parts.day)} ${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}`;
+}
+
+// ISO 8601 timestamp with the timezone's offset, e.g. 2025-03-17T14:03:00-07:00
+export function formatZonedTimestamp(date: Date, timezone: string): string {
+	const offsetMinutes = Math.round(getTimezoneOffsetMs(date, timezone) / 60000);
+	const sign = offsetMinutes < 0 ? '-' : '+';
+	const absolute = Math.abs(offsetMinutes);
+	return `${formatZonedDateTime(date, timezone).replace(' ', 'T')}${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+}
+
+// Calendar arithmetic on YYYY-MM-DD days, independent of any timezone or DST
+export function addDays(day: string, amount: number): string {
+	const [year, month, date] = day.split('-').map(part => parseInt(part, 10));
+	const shifted = new Date(Date.UTC(year, month - 1, date + amount));
+	return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+}
+
+// All days from start to end (inclusive)
+export function enumerateDays(startDay: string, endDay: string): string[] {
+	const days: string[] = [];
+	for (let day = startDay; day <= endDay; day = addDays(day, 1)) {
+		days.push(day);
+	}
+	return days;
+}
+
+// A local Date at noon of a day, for formatting the day with date-fns or moment tokens.
+// Noon is never skipped or repeated by a DST transition.
+export function dayToDate(day: string): Date {
+	const [year, month, date] = day.split('-').map(part => parseInt(part, 10));
+	return new Date(year, month - 1, date, 12);
+}
@@ -0,0 +1,160 @@
+// Interfaces for the Limitless API, generated from openapi.yml by generate-api.mjs.
+// Don't edit this file, edit the spec or the generator and run `npm run generate-api`.
+
+import { Schema, validate } from './apiValidation';
+
+export interface ContentNode {
+	// Type of content node (e.g., heading1, heading2, heading3, blockquote). More types might be added.
+	type: string;
+	// Content of the node.
+	content?: string;
+	// ISO format in given timezone.
+	startTime?: string;
+	// ISO format in given timezone.
+	endTime?: string;
+	// Milliseconds after start of this entry.
+	startOffsetMs?: number;
+	// Milliseconds after start of this entry.
+	endOffsetMs?: number;
+	// Child content nodes.
+	children?: ContentNode[];
+	// Speaker identifier, present for certain node types (e.g., blockquote).
+	speakerName?: string | null;
+	// Speaker identifier, when applicable. Set to "user" when the speaker has been identified as the user.
+	speakerIdentifier?: 'user' | null;
+}
+
+export interface Lifelog {
+	// Unique identifier for the entry.
+	id: string;
+	// Title of the entry. Equal to the first heading1 node.
+	title: string;
+	// Raw markdown content of the entry.
+	markdown?: string | null;
+	// List of ContentNodes.
+	contents: ContentNode[];
+}
+
+export interface MetaLifelogs {
+	// Cursor for pagination to retrieve the next set of lifelogs.
+	nextCursor?: string | null;
+	// Number of lifelogs in the current response.
+	count: number;
+}
+
+export interface Meta {
+	lifelogs: MetaLifelogs;
+}
+
+export interface LifelogsResponseData {
+	lifelogs: Lifelog[];
+}
+
+export interface LifelogsResponse {
+	data: LifelogsResponseData;
+	meta: Meta;
+}
+
+// Query parameters of GET /v1/lifelogs
+export interface GetLifelogsParams {
+	// IANA timezone specifier. If missing, UTC is used.
+	timezone?: string;
+	// Will return all entries beginning on a date in the given timezone (YYYY-MM-DD).
+	date?: string;
+	// Start datetime in modified ISO-8601 format (YYYY-MM-DD or YYYY-MM-DD HH:mm:SS). Timezones/offsets will be ignored.
+	start?: string;
+	// End datetime in modified ISO-8601 format (YYYY-MM-DD or YYYY-MM-DD HH:mm:SS). Timezones/offsets will be ignored.
+	end?: string;
+	// Cursor for pagination to retrieve the next set of entries.
+	cursor?: string;
+	// Sort direction for entries.
+	direction?: 'asc' | 'desc';
+	// Whether to include markdown content in the response.
+	includeMarkdown?: boolean;
+	// Whether to include headings in the response.
+	includeHeadings?: boolean;
+	// Maximum number of entries to return.
+	limit?: number;
+}
+
+export const schemas: Record<string, Schema> = {
+	ContentNode: {
+		type: 'object',
+		properties: {
+			type: { type: 'string' },
+			content: { type: 'string' },
+			startTime: { type: 'string' },
+			endTime: { type: 'string' },
+			startOffsetMs: { type: 'integer' },
+			endOffsetMs: { type: 'integer' },
+			children: { type: 'array', items: { $ref: 'ContentNode' } },
+			speakerName: { type: 'string', nullable: true },
+			speakerIdentifier: { type: 'string', enum: ['user'], nullable: true }
+		},
+		required: ['type']
+	},
+	Lifelog: {
+		type: 'object',
+		properties: {
+			id: { type: 'string' },
+			title: { type: 'string' },
+			markdown: { type: 'string', nullable: true },
+			contents: { type: 'array', items: { $ref: 'ContentNode' } }
+		},
+		required: ['id', 'title', 'contents']
+	},
+	MetaLifelogs: {
+		type: 'object',
+		properties: {
+			nextCursor: { type: 'string', nullable: true },
+			count: { type: 'integer' }
+		},
+		required: ['count']
+	},
+	Meta: {
+		type: 'object',
+		properties: {
+			lifelogs: { $ref: 'MetaLifelogs' }
+		},
+		required: ['lifelogs']
+	},
+	LifelogsResponseData: {
+		type: 'object',
+		properties: {
+			lifelogs: { type: 'array', items: { $ref: 'Lifelog' } }
+		},
+		required: ['lifelogs']
+	},
+	LifelogsResponse: {
+		type: 'object',
+		properties: {
+			data: { $ref: 'LifelogsResponseData' },
+			meta: { $ref: 'Meta' }
+		},
+		required: ['data', 'meta']
+	}
+};
+
+export function validateContentNode(value: unknown, path: string = 'ContentNode'): ContentNode {
+	return validate<ContentNode>(value, schemas.ContentNode, path, schemas);
+}
+
+export function validateLifelog(value: unknown, path: string = 'Lifelog'): Lifelog {
+	return validate<Lifelog>(value, schemas.Lifelog, path, schemas);
+}
+
+export function validateMetaLifelogs(value: unknown, path: string = 'MetaLifelogs'): MetaLifelogs {
+	return validate<MetaLifelogs>(value, schemas.MetaLifelogs, path, schemas);
+}
+
+export function validateMeta(value: unknown, path: string = 'Meta'): Meta {
+	return validate<Meta>(value, schemas.Meta, path, schemas);
+}
+
+export function validateLifelogsResponseData(value: unknown, path: string = 'LifelogsResponseData'): LifelogsResponseData {
+	return validate<LifelogsResponseData>(value, schemas.LifelogsResponseData, path, schemas);
+}
+
+export function validateLifelogsResponse(value: unknown, path: string = 'LifelogsResponse'): LifelogsResponse {
+	return validate<LifelogsResponse>(value, schemas.LifelogsResponse, path, schemas);
+}
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import { strict as assert } from 'assert';
+import { LimitlessApiError, LimitlessClient } from '../src/limitlessClient';
+import { ApiValidationError } from '../src/apiValidation';
+import { API_KEY, loadFixtureLifelogs } from './harness';
+import { MockLimitlessServer } from './mockServer';
+
+async function withServer(run: (server: MockLimitlessServer, client: LimitlessClient) => Promise<void>): Promise<void> {
+	const server = new MockLimitlessServer({ apiKey: API_KEY, lifelogs: loadFixtureLifelogs(), maxPageSize: 2 });
+	await server.start();
+	try {
+		await run(server, new LimitlessClient({ apiUrl: server.url, apiKey: API_KEY }));
+	} finally {
+		await server.stop();
+	}
+}
+
+test('getLifelogs sends the query parameters of the spec', async () => {
+	await withServer(async (server, client) => {
+		const page = await client.getLifelogs({ date: '2025-03-16', timezone: 'UTC', direction: 'asc', includeMarkdown: false, limit: 2 });
+
+		assert.deepEqual(page.data.lifelogs.map(lifelog => lifelog.id), ['ll-0316-a', 'll-0316-b']);
+		assert.equal(page.meta.lifelogs.count, 2);
+		assert.ok(page.meta.lifelogs.nextCursor);
+		assert.equal(page.data.lifelogs[0].markdown, undefined);
+
+		const params = server.requests[0].searchParams;
+		assert.equal(params.get('direction'), 'asc');
+		assert.equal(params.get('includeMarkdown'), 'false');
+		assert.equal(params.get('limit'), '2');
+		assert.ok(!params.has('cursor'));
+	});
+});
+
+test('getAllLifelogs follows the cursors across pages', async () => {
+	await withServer(async (server, client) => {
+		const ids: string[] = [];
+		for await (const lifelog of client.getAllLifelogs({ start: '2025-03-16', end: '2025-03-18', direction: 'asc' })) {
+			ids.push(lifelog.id);
+		}
+
+		assert.deepEqual(ids, ['ll-0316-a', 'll-0316-b', 'll-0316-c', 'll-0317-a', 'll-0317-b']);
+		assert.equal(server.requests.length, 3);
+	});
+});
+
+test('responses that do not match the spec are rejected', async () => {
+	await withServer(async (server, client) => {
+		const [lifelog] = loadFixtureLifelogs();
+		server.injectFailures({ status: 200, body: { data: { lifelogs: [Object.assign(lifelog, { contents: 'oops' })] }, meta: { lifelogs: { count: 1 } } } });
+
+		await assert.rejects(client.getLifelogs(), (error: ApiValidationError) => {
+			assert.ok(error instanceof ApiValidationError);
+			assert.equal(error.path, 'LifelogsResponse.data.lifelogs[0].contents');
+			return true;
+		});
+	});
+});
+
+test('error statuses are thrown with the status and headers', async () => {
+	await withServer(async (server, client) => {
+		server.injectFailures({ status: 429, retryAfterSeconds: 3 });
+		await assert.rejects(client.getLifelogs(), (error: LimitlessApiError) => {
+			assert.ok(error instanceof LimitlessApiError);
+			assert.equal(error.status, 429);
+			assert.equal(error.headers['retry-after'], '3');
+			return true;
+		});
+
+		const unauthorized = new LimitlessClient({ apiUrl: server.url, apiKey: 'wrong-key' });
+		await assert.rejects(unauthorized.getLifelogs(), /Authentication failed/);
+	});
+});
@@ -0,0 +1,139 @@
+import { TAbstractFile, TFile, TFolder, normalizePath, parseYaml } from './mocks/obsidian';
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)(?:\r?\n)?---/;
+
+// In-memory vault with the file operations the plugin uses. Files outside the plugin's
+// data folder can be listed and read back for assertions.
+export class FakeVault {
+	configDir = '.obsidian';
+	private files: Map<string, TAbstractFile> = new Map();
+	private contents: Map<string, string> = new Map();
+	// Number of create/modify calls per path
+	writes: Map<string, number> = new Map();
+
+	// Plugin data files (cache, sync history) written through the adapter
+	adapter = {
+		exists: async (path: string) => this.contents.has(normalizePath(path)) || this.files.has(normalizePath(path)),
+		read: async (path: string) => this.readPath(path),
+		write: async (path: string, data: string) => {
+			this.contents.set(normalizePath(path), data);
+		}
+	};
+
+	getAbstractFileByPath(path: string): TAbstractFile | null {
+		return this.files.get(normalizePath(path)) || null;
+	}
+
+	getMarkdownFiles(): TFile[] {
+		return [...this.files.values()].filter((file): file is TFile => file instanceof TFile && file.extension === 'md');
+	}
+
+	async read(file: TFile): Promise<string> {
+		return this.readPath(file.path);
+	}
+
+	async create(path: string, data: string): Promise<TFile> {
+		path = normalizePath(path);
+		if (this.files.has(path)) {
+			throw new Error(`File already exists: ${path}`);
+		}
+		const file = new TFile(path);
+		this.attach(file);
+		this.contents.set(path, data);
+		this.countWrite(path);
+		return file;
+	}
+
+	async modify(file: TFile, data: string): Promise<void> {
+		if (this.files.get(file.path) !== file) {
+			throw new Error(`File doesn't exist: ${file.path}`);
+		}
+		this.contents.set(file.path, data);
+		this.countWrite(file.path);
+	}
+
+	async createFolder(path: string): Promise<TFolder> {
+		path = normalizePath(path);
+		if (this.files.has(path)) {
+			throw new Error(`Folder already exists: ${path}`);
+		}
+		// Like Obsidian, create missing parent folders too
+		const parentPath = path.substring(0, path.lastIndexOf('/'));
+		if (parentPath && !this.files.has(parentPath)) {
+			await this.createFolder(parentPath);
+		}
+		const folder = new TFolder(path);
+		this.attach(folder);
+		return folder;
+	}
+
+	async rename(file: TAbstractFile, newPath: string): Promise<void> {
+		newPath = normalizePath(newPath);
+		const data = this.contents.get(file.path);
+		this.files.delete(file.path);
+		this.contents.delete(file.path);
+		file.path = newPath;
+		file.name = newPath.substring(newPath.lastIndexOf('/') + 1);
+		this.attach(file);
+		if (data !== undefined) {
+			this.contents.set(newPath, data);
+		}
+	}
+
+	// Frontmatter of a note, as Obsidian's metadata cache would report it
+	getFrontmatter(file: TFile): Record<string, any> | undefined {
+		const match = FRONTMATTER_PATTERN.exec(this.contents.get(file.path) || '');
+		return match ? parseYaml(match[1]) || {} : undefined;
+	}
+
+	// Paths of all notes, sorted
+	listNotes(): string[] {
+		return this.getMarkdownFiles().map(file => file.path).sort();
+	}
+
+	readNote(path: string): string {
+		return this.readPath(path);
+	}
+
+	private readPath(path: string): string {
+		const data = this.contents.get(normalizePath(path));
+		if (data === undefined) {
+			throw new Error(`File not found: ${path}`);
+		}
+		return data;
+	}
+
+	private attach(file: TAbstractFile): void {
+		const parentPath = file.path.substring(0, file.path.lastIndexOf('/'));
+		const parent = parentPath ? this.files.get(parentPath) : undefined;
+		if (parentPath && !(parent instanceof TFolder)) {
+			throw new Error(`Parent folder doesn't exist: ${parentPath}`);
+		}
+		if (parent instanceof TFolder) {
+			file.parent = parent;
+			parent.children.push(file);
+		}
+		this.files.set(file.path, file);
+	}
+
+	private countWrite(path: string): void {
+		this.writes.set(path, (this.writes.get(path) || 0) + 1);
+	}
+}
+
+// The app object the plugin sees, backed by a fake vault
+export function createFakeApp(vault: FakeVault): any {
+	return {
+		vault,
+		workspace: {
+			getActiveFile: () => null,
+			on: () => ({})
+		},
+		metadataCache: {
+			getFileCache: (file: TFile) => ({ frontmatter: vault.getFrontmatter(file) })
+		},
+		fileManager: {
+			renameFile: (file: TAbstractFile, newPath: string) => vault.rename(file, newPath)
+		}
+	};
+}
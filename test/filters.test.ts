@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import { strict as assert } from 'assert';
+import { parseTimeWindows } from '../src/filters';
+
+test('time windows are parsed with their days and minutes', () => {
+	const windows = parseTimeWindows('Mon-Fri 09:00-17:00\n\n22:00-06:00\nSat,Sun 09:00-24:00');
+
+	assert.deepEqual(windows, [
+		{ days: [1, 2, 3, 4, 5], start: 9 * 60, end: 17 * 60, label: 'Mon-Fri 09:00-17:00' },
+		{ days: [0, 1, 2, 3, 4, 5, 6], start: 22 * 60, end: 6 * 60, label: '22:00-06:00' },
+		{ days: [6, 0], start: 9 * 60, end: 24 * 60, label: 'Sat,Sun 09:00-24:00' }
+	]);
+});
+
+test('times past the end of the day are rejected', () => {
+	for (const line of ['09:00-24:30', '09:00-24:01', '25:00-26:00', '09:60-10:00']) {
+		assert.throws(() => parseTimeWindows(line), new RegExp(`Invalid time window "${line}"`), line);
+	}
+});
@@ -0,0 +1,64 @@
+import { readFileSync } from 'fs';
+import LimitlessPlugin from '../main';
+import { Lifelog } from '../src/types';
+import { FakeVault, createFakeApp } from './fakeVault';
+import { MockLimitlessServer } from './mockServer';
+
+export const API_KEY = 'test-api-key';
+
+export interface TestHarness {
+	plugin: LimitlessPlugin;
+	vault: FakeVault;
+	server: MockLimitlessServer;
+	close(): Promise<void>;
+}
+
+// Fixture lifelogs served by the mock API, a fresh copy per call
+export function loadFixtureLifelogs(): Lifelog[] {
+	return JSON.parse(readFileSync('test/fixtures/lifelogs.json', 'utf8'));
+}
+
+// Load the plugin into a fake vault, pointed at a mock API serving the fixtures, and wait for
+// the sync it runs on load to finish
+export async function createHarness(settings: Record<string, any> = {}): Promise<TestHarness> {
+	const server = new MockLimitlessServer({ apiKey: API_KEY, lifelogs: loadFixtureLifelogs(), maxPageSize: 2 });
+	await server.start();
+
+	const vault = new FakeVault();
+	const plugin = new LimitlessPlugin(createFakeApp(vault), {
+		id: 'limitless',
+		name: 'Limitless',
+		version: '1.0.0',
+		minAppVersion: '0.15.0',
+		description: '',
+		author: '',
+		authorUrl: '',
+		isDesktopOnly: false,
+		dir: '.obsidian/plugins/limitless'
+	});
+	await plugin.saveData(Object.assign({
+		apiKey: API_KEY,
+		apiUrl: server.url,
+		timezone: 'UTC',
+		startDate: '2025-03-15',
+		requestsPerMinute: 6000
+	}, settings));
+
+	await plugin.onload();
+	await plugin.currentJob?.drained;
+
+	return {
+		plugin,
+		vault,
+		server,
+		close: async () => {
+			const job = plugin.currentJob;
+			if (job) {
+				job.cancel();
+				await job.drained;
+			}
+			(plugin as any).unload();
+			await server.stop();
+		}
+	};
+}
@@ -0,0 +1,175 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ContentNode, Lifelog } from '../src/types';
+
+export interface MockServerOptions {
+	apiKey: string;
+	lifelogs: Lifelog[];
+	maxPageSize?: number; // Largest page the server returns, to exercise pagination with few fixtures
+}
+
+// A response to send instead of the next request's real answer
+export interface InjectedFailure {
+	status: 401 | 429 | 504 | number;
+	retryAfterSeconds?: number;
+	body?: any; // Response body, an error message by default
+}
+
+// Local stand-in for GET /v1/lifelogs of the Limitless API (see openapi.yml), serving fixture lifelogs
+export class MockLimitlessServer {
+	lifelogs: Lifelog[];
+	// Every request received, including failed ones
+	requests: URL[] = [];
+	private failures: InjectedFailure[] = [];
+	private server: http.Server;
+	private options: MockServerOptions;
+
+	constructor(options: MockServerOptions) {
+		this.options = options;
+		this.lifelogs = options.lifelogs;
+		this.server = http.createServer((request, response) => this.handle(request, response));
+	}
+
+	async start(): Promise<void> {
+		await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', () => resolve()));
+	}
+
+	async stop(): Promise<void> {
+		await new Promise<void>(resolve => this.server.close(() => resolve()));
+	}
+
+	// Base URL to use as the plugin's API URL
+	get url(): string {
+		const { port } = this.server.address() as AddressInfo;
+		return `http://127.0.0.1:${port}/v1`;
+	}
+
+	// Answer the next requests with these failures, one each, before serving normally again
+	injectFailures(...failures: InjectedFailure[]): void {
+		this.failures.push(...failures);
+	}
+
+	private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+		const url = new URL(request.url || '/', 'http://127.0.0.1');
+		this.requests.push(url);
+
+		const failure = this.failures.shift();
+		if (failure) {
+			const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+			if (failure.retryAfterSeconds !== undefined) {
+				headers['Retry-After'] = String(failure.retryAfterSeconds);
+			}
+			this.send(response, failure.status, failure.body !== undefined ? failure.body : { error: `Injected ${failure.status}` }, headers);
+			return;
+		}
+
+		if (url.pathname !== '/v1/lifelogs') {
+			this.send(response, 404, { error: 'Not found' });
+			return;
+		}
+		if (request.headers['x-api-key'] !== this.options.apiKey) {
+			this.send(response, 401, { error: 'Invalid API key' });
+			return;
+		}
+
+		try {
+			this.send(response, 200, this.getLifelogs(url.searchParams));
+		} catch (error) {
+			this.send(response, 400, { error: error.message });
+		}
+	}
+
+	private getLifelogs(params: URLSearchParams): any {
+		const timezone = params.get('timezone') || 'UTC';
+		const date = params.get('date');
+		const start = params.get('start');
+		const end = params.get('end');
+		const direction = params.get('direction') || 'desc';
+		const limit = Math.min(parseInt(params.get('limit') || '10'), this.options.maxPageSize || 10);
+		const offset = params.get('cursor') ? parseInt(Buffer.from(params.get('cursor') as string, 'base64').toString()) : 0;
+		if (direction !== 'asc' && direction !== 'desc') {
+			throw new Error(`Invalid direction: ${direction}`);
+		}
+
+		// Entries are matched by their start time as wall-clock time in the request timezone
+		const matching = this.lifelogs
+			.map(lifelog => ({ lifelog, start: toWallClock(getStartTime(lifelog), timezone) }))
+			.filter(entry => {
+				if (date) return entry.start.startsWith(date);
+				if (start && entry.start < normalizeBound(start)) return false;
+				if (end && entry.start >= normalizeBound(end)) return false;
+				return true;
+			})
+			.sort((a, b) => direction === 'asc' ? a.start.localeCompare(b.start) : b.start.localeCompare(a.start));
+
+		const page = matching.slice(offset, offset + limit).map(entry => {
+			const lifelog: Lifelog = JSON.parse(JSON.stringify(entry.lifelog));
+			if (params.get('includeMarkdown') === 'false') {
+				delete lifelog.markdown;
+			}
+			if (params.get('includeHeadings') === 'false') {
+				lifelog.contents = withoutHeadings(lifelog.contents);
+			}
+			return lifelog;
+		});
+		const nextOffset = offset + page.length;
+
+		return {
+			data: { lifelogs: page },
+			meta: {
+				lifelogs: {
+					nextCursor: nextOffset < matching.length ? Buffer.from(String(nextOffset)).toString('base64') : null,
+					count: page.length
+				}
+			}
+		};
+	}
+
+	private send(response: http.ServerResponse, status: number, body: any, headers: Record<string, string> = { 'Content-Type': 'application/json' }): void {
+		response.writeHead(status, headers);
+		response.end(JSON.stringify(body));
+	}
+}
+
+function getStartTime(lifelog: Lifelog): Date {
+	const times: string[] = [];
+	const collect = (nodes: ContentNode[]) => {
+		for (const node of nodes) {
+			if (node.startTime) times.push(node.startTime);
+			if (node.children) collect(node.children);
+		}
+	};
+	collect(lifelog.contents);
+	times.sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+	return new Date(times[0]);
+}
+
+// YYYY-MM-DD HH:mm:ss in the given timezone
+function toWallClock(date: Date, timezone: string): string {
+	return new Intl.DateTimeFormat('sv-SE', {
+		timeZone: timezone,
+		year: 'numeric', month: '2-digit', day: '2-digit',
+		hour: '2-digit', minute: '2-digit', second: '2-digit',
+		hourCycle: 'h23'
+	}).format(date);
+}
+
+// start/end accept YYYY-MM-DD or YYYY-MM-DD HH:mm:SS; offsets are ignored
+function normalizeBound(value: string): string {
+	const [day, time] = value.trim().split(/[ T]/);
+	return `${day} ${(time || '00:00:00').substring(0, 8)}`;
+}
+
+// Drop heading nodes, keeping their children in their place
+function withoutHeadings(nodes: ContentNode[]): ContentNode[] {
+	const result: ContentNode[] = [];
+	for (const node of nodes) {
+		const children = node.children ? withoutHeadings(node.children) : undefined;
+		if (node.type.startsWith('heading')) {
+			result.push(...(children || []));
+		} else {
+			result.push(children ? Object.assign({}, node, { children }) : node);
+		}
+	}
+	return result;
+}
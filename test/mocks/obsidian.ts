@@ -0,0 +1,219 @@
+// Stand-in for the parts of the Obsidian API the plugin uses, so it can run under Node.
+// The test build aliases 'obsidian' to this module.
+import * as yaml from 'js-yaml';
+
+// The plugin uses window.setTimeout and window.crypto like in Obsidian
+const globals = globalThis as any;
+if (!globals.window) {
+	globals.window = globalThis;
+}
+
+// Every notice shown, oldest first
+export const notices: string[] = [];
+
+export class Notice {
+	constructor(message: string, timeout?: number) {
+		notices.push(message);
+	}
+}
+
+export abstract class TAbstractFile {
+	name: string;
+	parent: TFolder | null = null;
+
+	constructor(public path: string) {
+		this.name = path.substring(path.lastIndexOf('/') + 1);
+	}
+}
+
+export class TFile extends TAbstractFile {
+	get basename(): string {
+		const dot = this.name.lastIndexOf('.');
+		return dot > 0 ? this.name.substring(0, dot) : this.name;
+	}
+
+	get extension(): string {
+		const dot = this.name.lastIndexOf('.');
+		return dot > 0 ? this.name.substring(dot + 1) : '';
+	}
+}
+
+export class TFolder extends TAbstractFile {
+	children: TAbstractFile[] = [];
+}
+
+export function normalizePath(path: string): string {
+	return path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
+
+export function parseYaml(text: string): any {
+	return yaml.load(text);
+}
+
+export function stringifyYaml(value: any): string {
+	return yaml.dump(value);
+}
+
+export function moment(): never {
+	throw new Error('moment is not available in tests');
+}
+
+export interface RequestUrlParam {
+	url: string;
+	method?: string;
+	headers?: Record<string, string>;
+	body?: string;
+	throw?: boolean;
+}
+
+export interface RequestUrlResponse {
+	status: number;
+	headers: Record<string, string>;
+	json: any;
+	text: string;
+}
+
+// Like Obsidian's requestUrl: unless throw is false, responses with a status of 400 or more reject with an
+// error carrying the status and headers
+export async function requestUrl(params: RequestUrlParam): Promise<RequestUrlResponse> {
+	const response = await fetch(params.url, { method: params.method || 'GET', headers: params.headers, body: params.body });
+	const text = await response.text();
+	const headers: Record<string, string> = {};
+	response.headers.forEach((value, key) => {
+		headers[key] = value;
+	});
+
+	if (response.status >= 400 && params.throw !== false) {
+		const error: any = new Error(`Request failed, status ${response.status}`);
+		error.status = response.status;
+		error.headers = headers;
+		throw error;
+	}
+
+	return {
+		status: response.status,
+		headers,
+		text,
+		get json() {
+			return JSON.parse(text);
+		}
+	};
+}
+
+// Minimal element for status bar items and settings UI
+class FakeElement {
+	text: string = '';
+	attributes: Record<string, string> = {};
+	children: FakeElement[] = [];
+	classList = { add: () => {}, remove: () => {} };
+	style: Record<string, string> = {};
+
+	empty(): void {
+		this.children = [];
+	}
+
+	createEl(): FakeElement {
+		const child = new FakeElement();
+		this.children.push(child);
+		return child;
+	}
+
+	setText(text: string): this {
+		this.text = text;
+		return this;
+	}
+
+	setAttribute(name: string, value: string): void {
+		this.attributes[name] = value;
+	}
+
+	addEventListener(): void {}
+}
+
+export interface PluginManifest {
+	id: string;
+	name: string;
+	version: string;
+	dir?: string;
+}
+
+export class Plugin {
+	private data: any = null;
+	private intervals: number[] = [];
+	commands: any[] = [];
+
+	constructor(public app: any, public manifest: PluginManifest) {}
+
+	async loadData(): Promise<any> {
+		return this.data ? JSON.parse(JSON.stringify(this.data)) : null;
+	}
+
+	async saveData(data: any): Promise<void> {
+		this.data = JSON.parse(JSON.stringify(data));
+	}
+
+	addRibbonIcon(): FakeElement {
+		return new FakeElement();
+	}
+
+	addStatusBarItem(): FakeElement {
+		return new FakeElement();
+	}
+
+	addCommand(command: any): void {
+		this.commands.push(command);
+	}
+
+	addSettingTab(): void {}
+
+	registerInterval(id: number): void {
+		this.intervals.push(id);
+	}
+
+	registerEvent(): void {}
+
+	onload(): void | Promise<void> {}
+
+	onunload(): void {}
+
+	// Like Obsidian, clear registered intervals when the plugin is unloaded
+	unload(): void {
+		for (const id of this.intervals) {
+			clearInterval(id);
+		}
+		this.intervals = [];
+		this.onunload();
+	}
+}
+
+export class PluginSettingTab {
+	containerEl = new FakeElement();
+
+	constructor(public app: any, public plugin: Plugin) {}
+}
+
+export class Setting {
+	constructor(containerEl: any) {}
+	setName(): this { return this; }
+	setDesc(): this { return this; }
+	addText(): this { return this; }
+	addButton(): this { return this; }
+	addSlider(): this { return this; }
+	addToggle(): this { return this; }
+	addDropdown(): this { return this; }
+	addTextArea(): this { return this; }
+}
+
+export class Modal {
+	titleEl = new FakeElement();
+	contentEl = new FakeElement();
+
+	constructor(public app: any) {}
+	open(): void {}
+	close(): void {}
+}
+
+export class Menu {
+	addItem(): this { return this; }
+	showAtMouseEvent(): this { return this; }
+}
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import { strict as assert } from 'assert';
+import { RedactionSettings, Redactor } from '../src/redaction';
+import { loadFixtureLifelogs } from './harness';
+
+function createRedactor(settings: Partial<RedactionSettings> = {}): Redactor {
+	return new Redactor(Object.assign({
+		enabled: true,
+		mode: 'mask',
+		detectors: ['email', 'phone', 'creditCard', 'iban', 'ssn'],
+		customPatterns: '',
+		keywords: ''
+	}, settings), 'salt');
+}
+
+test('phone numbers are redacted in the usual notations', () => {
+	const redactor = createRedactor();
+	for (const phone of ['+1 555 123 4567', '+49 30 1234567', '(555) 123-4567', '555-123-4567', '555.123.4567', '0301234567']) {
+		const counts = {};
+		assert.equal(redactor.redactText(`Call me at ${phone} tomorrow`, counts), 'Call me at [phone number] tomorrow', phone);
+		assert.deepEqual(counts, { phone: 1 });
+	}
+});
+
+test('dates and plain numbers are not taken for phone numbers', () => {
+	const redactor = createRedactor();
+	for (const text of ['2025-03-17', 'On 30 2025-03-17 we met', '12345678', 'Order 1234567', '17.03.2025', '2025-03-17 12345']) {
+		const counts = {};
+		assert.equal(redactor.redactText(text, counts), text, text);
+		assert.deepEqual(counts, {});
+	}
+});
+
+test('keywords are redacted from speaker names', () => {
+	const [lifelog] = loadFixtureLifelogs().filter(entry => entry.id === 'll-0315-a');
+	const { lifelog: redacted, counts } = createRedactor({ keywords: 'Alex' }).redactLifelog(lifelog);
+
+	const speakers = (redacted.contents[0].children || []).map(node => node.speakerName);
+	assert.deepEqual(speakers, ['You', '[redacted]']);
+	assert.ok(counts.keyword >= 1);
+	// The original lifelog is left alone
+	assert.equal((lifelog.contents[0].children || [])[1].speakerName, 'Alex');
+});
+
+test('later detectors leave earlier redactions alone', () => {
+	for (const mode of ['mask', 'hash'] as const) {
+		const redactor = createRedactor({ mode, customPatterns: '\\d+' });
+		const counts = {};
+		const redacted = redactor.redactText('Mail anna@example.com about room 12', counts);
+		assert.match(redacted, mode === 'mask'
+			? /^Mail \[email\] about room \[redacted\]$/
+			: /^Mail \[email:[0-9a-f]+\] about room \[redacted:[0-9a-f]+\]$/, mode);
+		assert.deepEqual(counts, { email: 1, custom: 1 });
+	}
+});
@@ -0,0 +1,30 @@
+// Bundles the tests with esbuild, replacing the Obsidian API with test/mocks/obsidian.ts,
+// and runs them with Node's built-in test runner
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import process from "process";
+
+const testFiles = readdirSync("test").filter(file => file.endsWith(".test.ts"));
+const outdir = mkdtempSync(path.join(tmpdir(), "limitless-tests-"));
+
+try {
+	await esbuild.build({
+		entryPoints: testFiles.map(file => `test/${file}`),
+		bundle: true,
+		platform: "node",
+		format: "cjs",
+		target: "node18",
+		outdir,
+		alias: { obsidian: "./test/mocks/obsidian.ts" },
+		sourcemap: "inline",
+		logLevel: "warning",
+	});
+
+	const result = spawnSync(process.execPath, ["--test", ...testFiles.map(file => path.join(outdir, file.replace(/\.ts$/, ".js")))], { stdio: "inherit" });
+	process.exitCode = result.status ?? 1;
+} finally {
+	rmSync(outdir, { recursive: true, force: true });
+}
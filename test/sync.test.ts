@@ -0,0 +1,409 @@
+import { test } from 'node:test';
+import { strict as assert } from 'assert';
+import { notices } from './mocks/obsidian';
+import { createHarness, loadFixtureLifelogs } from './harness';
+import { InjectedFailure, MockLimitlessServer } from './mockServer';
+import { Lifelog } from '../src/types';
+import { createBackfillCheckpoint, markBackfillDayCompleted } from '../src/backfill';
+
+test('incremental sync writes a daily note per day, following pagination', async () => {
+	const { plugin, vault, server, close } = await createHarness();
+	try {
+		assert.deepEqual(vault.listNotes(), ['Limitless/2025-03-15.md', 'Limitless/2025-03-16.md', 'Limitless/2025-03-17.md']);
+
+		const march16 = vault.readNote('Limitless/2025-03-16.md');
+		for (const title of ['Planning the trip', 'Code review', 'Call with the landlord']) {
+			assert.ok(march16.includes(title), `2025-03-16 should include ${title}`);
+		}
+		assert.ok(!march16.includes('Morning standup'));
+
+		// Seven fixtures in pages of two
+		const pages = server.requests.filter(url => url.pathname === '/v1/lifelogs');
+		assert.equal(pages.length, 4);
+		assert.equal(pages[0].searchParams.get('start'), '2025-03-15 00:00:00');
+		assert.equal(pages[0].searchParams.get('timezone'), 'UTC');
+		assert.equal(pages[0].searchParams.get('direction'), 'desc');
+		assert.equal(pages[0].searchParams.get('includeMarkdown'), 'false');
+		assert.ok(!pages[0].searchParams.has('sort'));
+		assert.ok(pages.slice(1).every(url => url.searchParams.has('cursor')));
+
+		// The high-water mark is the end of the newest lifelog
+		assert.equal(plugin.profile.lastSyncTimestamp, '2025-03-17T19:40:00.000Z');
+		assert.equal(plugin.syncHistory.runs[0].status, 'completed');
+		assert.equal(plugin.syncHistory.runs[0].lifelogs, 7);
+	} finally {
+		await close();
+	}
+});
+
+// A copy of the last fixture lifelog two hours later, at 21:00-21:40 on 2025-03-17
+function createLateLifelog(): Lifelog {
+	const [lifelog] = loadFixtureLifelogs().filter(entry => entry.id === 'll-0317-b');
+	lifelog.id = 'll-0317-c';
+	lifelog.title = 'Late phone call';
+	lifelog.contents[0].content = 'Late phone call';
+	for (const node of [lifelog.contents[0], ...(lifelog.contents[0].children || [])]) {
+		node.startTime = (node.startTime as string).replace('T19:', 'T21:');
+		node.endTime = (node.endTime as string).replace('T19:', 'T21:');
+	}
+	return lifelog;
+}
+
+test('incremental sync only fetches since the high-water mark and keeps edits', async () => {
+	const { plugin, vault, server, close } = await createHarness();
+	try {
+		const note = vault.getAbstractFileByPath('Limitless/2025-03-17.md') as any;
+		await vault.modify(note, vault.readNote(note.path) + '\nMy own notes\n');
+		const writesBefore = new Map(vault.writes);
+
+		server.lifelogs.push(createLateLifelog());
+		server.requests = [];
+
+		await plugin.syncLifelogs();
+
+		// The window starts 15 minutes before the previous high-water mark
+		assert.equal(server.requests[0].searchParams.get('start'), '2025-03-17 19:25:00');
+		const march17 = vault.readNote('Limitless/2025-03-17.md');
+		assert.ok(march17.includes('Late phone call'));
+		assert.ok(march17.includes('My own notes'));
+		assert.equal(vault.writes.get('Limitless/2025-03-15.md'), writesBefore.get('Limitless/2025-03-15.md'));
+		assert.equal(plugin.profile.lastSyncTimestamp, '2025-03-17T21:40:00.000Z');
+	} finally {
+		await close();
+	}
+});
+
+test('incremental sync fetches whole days the cache is missing instead of dropping entries', async () => {
+	const { plugin, vault, server, close } = await createHarness();
+	try {
+		plugin.lifelogCache.clear();
+		server.lifelogs.push(createLateLifelog());
+		server.requests = [];
+
+		await plugin.syncLifelogs();
+
+		// The window only has the late lifelog, so the rest of the day is fetched by date
+		assert.equal(server.requests[0].searchParams.get('start'), '2025-03-17 19:25:00');
+		assert.ok(server.requests.some(url => url.searchParams.get('date') === '2025-03-17'));
+		const march17 = vault.readNote('Limitless/2025-03-17.md');
+		for (const title of ['Design sync', 'Evening walk', 'Late phone call']) {
+			assert.ok(march17.includes(title), `2025-03-17 should include ${title}`);
+		}
+		assert.ok(plugin.lifelogCache.isDayComplete('2025-03-17'));
+	} finally {
+		await close();
+	}
+});
+
+test('force sync of a date range fetches day by day and overwrites notes', async () => {
+	const { plugin, vault, server, close } = await createHarness();
+	try {
+		const note = vault.getAbstractFileByPath('Limitless/2025-03-16.md') as any;
+		await vault.modify(note, vault.readNote(note.path) + '\nMy own notes\n');
+		const march17Writes = vault.writes.get('Limitless/2025-03-17.md');
+		server.requests = [];
+		// An unfinished backfill from before
+		const checkpoint = createBackfillCheckpoint(['2025-03-15', '2025-03-16', '2025-03-17'], false);
+		markBackfillDayCompleted(checkpoint, '2025-03-15');
+		plugin.profile.backfillCheckpoint = checkpoint;
+
+		await plugin.syncDateRange('2025-03-15', '2025-03-16', true);
+
+		const days = server.requests.map(url => url.searchParams.get('date')).sort();
+		assert.deepEqual([...new Set(days)], ['2025-03-15', '2025-03-16']);
+		assert.ok(server.requests.every(url => !url.searchParams.has('start')));
+
+		const march16 = vault.readNote('Limitless/2025-03-16.md');
+		assert.ok(!march16.includes('My own notes'));
+		assert.ok(march16.includes('Call with the landlord'));
+		assert.equal(vault.writes.get('Limitless/2025-03-17.md'), march17Writes);
+
+		// The range sync leaves the unfinished backfill to be resumed
+		assert.equal(plugin.profile.backfillCheckpoint, checkpoint);
+		assert.deepEqual(checkpoint.completedDays, ['2025-03-15']);
+		assert.equal(plugin.syncHistory.runs[0].mode, 'range');
+		assert.equal(plugin.syncHistory.runs[0].days, 2);
+	} finally {
+		await close();
+	}
+});
+
+test('lifelogs are requested in entry order with the configured headings and page size', async () => {
+	const { vault, server, close } = await createHarness({ ascendingOrder: true, includeHeadings: false, pageSize: 1 });
+	try {
+		const params = server.requests[0].searchParams;
+		assert.equal(params.get('direction'), 'asc');
+		assert.equal(params.get('includeHeadings'), 'false');
+		assert.equal(params.get('limit'), '1');
+		assert.equal(server.requests.length, 7);
+
+		// Oldest first, as fetched
+		const march16 = vault.readNote('Limitless/2025-03-16.md');
+		const positions = ['Planning the trip', 'Code review', 'Call with the landlord'].map(title => march16.indexOf(title));
+		assert.ok(positions.every((position, index) => position >= 0 && (index === 0 || position > positions[index - 1])));
+	} finally {
+		await close();
+	}
+});
+
+test('fetching a time window merges its lifelogs without moving the high-water mark', async () => {
+	const { plugin, vault, server, close } = await createHarness();
+	try {
+		const note = vault.getAbstractFileByPath('Limitless/2025-03-16.md') as any;
+		await vault.modify(note, vault.readNote(note.path) + '\nMy own notes\n');
+		server.requests = [];
+
+		await plugin.fetchWindow('2025-03-16 00:00:00', '2025-03-16 12:00:00');
+
+		const params = server.requests[0].searchParams;
+		assert.equal(params.get('start'), '2025-03-16 00:00:00');
+		assert.equal(params.get('end'), '2025-03-16 12:00:00');
+		assert.ok(vault.readNote('Limitless/2025-03-16.md').includes('My own notes'));
+		assert.equal(plugin.profile.lastSyncTimestamp, '2025-03-17T19:40:00.000Z');
+		assert.equal(plugin.syncHistory.runs[0].mode, 'window');
+		assert.equal(plugin.syncHistory.runs[0].lifelogs, 2);
+		assert.equal(plugin.syncHistory.runs[0].status, 'completed');
+	} finally {
+		await close();
+	}
+});
+
+test('fetching a window of a day missing from the cache keeps the rest of the day', async () => {
+	const { plugin, vault, server, close } = await createHarness();
+	try {
+		plugin.lifelogCache.clear();
+		server.requests = [];
+
+		await plugin.fetchWindow('2025-03-17 00:00:00', '2025-03-17 16:00:00');
+
+		assert.ok(server.requests.some(url => url.searchParams.get('date') === '2025-03-17'));
+		const march17 = vault.readNote('Limitless/2025-03-17.md');
+		assert.ok(march17.includes('Design sync'));
+		assert.ok(march17.includes('Evening walk'));
+	} finally {
+		await close();
+	}
+});
+
+test('days are bucketed by the configured timezone', async () => {
+	const { vault, server, close } = await createHarness({ timezone: 'Pacific/Auckland' });
+	try {
+		assert.equal(server.requests[0].searchParams.get('timezone'), 'Pacific/Auckland');
+		// 12:30 UTC on the 15th is 01:30 on the 16th in Auckland, 19:00 UTC on the 17th is 08:00 on the 18th
+		assert.ok(vault.readNote('Limitless/2025-03-16.md').includes('Lunch with Sam'));
+		assert.ok(vault.readNote('Limitless/2025-03-18.md').includes('Evening walk'));
+		assert.ok(!vault.readNote('Limitless/2025-03-15.md').includes('Lunch with Sam'));
+	} finally {
+		await close();
+	}
+});
+
+test('server errors and rate limits are retried', async () => {
+	const { plugin, vault, server, close } = await createHarness();
+	try {
+		server.injectFailures({ status: 504 }, { status: 429, retryAfterSeconds: 1 });
+		server.requests = [];
+
+		await plugin.syncDateRange('2025-03-16', '2025-03-16', false);
+
+		const run = plugin.syncHistory.runs[0];
+		assert.equal(run.status, 'completed');
+		assert.equal(run.retries, 2);
+		assert.deepEqual(run.failedDays, []);
+		assert.equal(plugin.rateLimiter.getMetrics().rateLimited, 1);
+		assert.ok(vault.readNote('Limitless/2025-03-16.md').includes('Code review'));
+	} finally {
+		await close();
+	}
+});
+
+test('a day that stays rate limited fails after the maximum number of retries', async () => {
+	const { plugin, server, close } = await createHarness();
+	try {
+		const rateLimits: InjectedFailure[] = [];
+		for (let i = 0; i < 6; i++) {
+			rateLimits.push({ status: 429, retryAfterSeconds: 1 });
+		}
+		server.injectFailures(...rateLimits);
+		server.requests = [];
+
+		await plugin.syncDateRange('2025-03-16', '2025-03-16', false);
+
+		// The first request and five retries, then the day is left to "retry failed days"
+		assert.equal(server.requests.length, 6);
+		const run = plugin.syncHistory.runs[0];
+		assert.equal(run.retries, 5);
+		assert.deepEqual(run.failedDays.map(failure => failure.day), ['2025-03-16']);
+		assert.equal(plugin.isSyncing, false);
+	} finally {
+		await close();
+	}
+});
+
+test('a wrong API key fails the sync without writing notes', async () => {
+	notices.length = 0;
+	const { plugin, vault, close } = await createHarness({ apiKey: 'wrong-key' });
+	try {
+		assert.deepEqual(vault.listNotes(), []);
+		assert.ok(plugin.lastSyncError?.includes('Authentication failed'));
+		assert.equal(plugin.syncHistory.runs[0].status, 'failed');
+		assert.equal(plugin.profile.lastSyncTimestamp, '');
+		assert.ok(notices.some(notice => notice.includes('check your API key')));
+	} finally {
+		await close();
+	}
+});
+
+test('cancelling a sync aborts retry waits and writes nothing', async () => {
+	const { plugin, vault, server, close } = await createHarness();
+	try {
+		const writesBefore = new Map(vault.writes);
+		server.injectFailures({ status: 504 });
+
+		const sync = plugin.syncLifelogs(true);
+		// Let the first request fail and the retry wait start
+		await new Promise(resolve => setTimeout(resolve, 300));
+		const cancelledAt = Date.now();
+		await plugin.cancelOngoingSync();
+		await sync;
+
+		// The 504 retry waits at least four seconds, so this only passes if the wait was aborted
+		assert.ok(Date.now() - cancelledAt < 2000);
+		assert.equal(plugin.isSyncing, false);
+		assert.equal(plugin.syncHistory.runs[0].status, 'cancelled');
+		assert.deepEqual(vault.writes, writesBefore);
+		// The cancelled backfill can be resumed
+		assert.ok(plugin.profile.backfillCheckpoint);
+	} finally {
+		await close();
+	}
+});
+
+test('a failed cache save still ends the re-render', async () => {
+	const { plugin, vault, close } = await createHarness();
+	try {
+		const note = vault.getAbstractFileByPath('Limitless/2025-03-16.md') as any;
+		await vault.modify(note, vault.readNote(note.path).replace('Code review', 'Stale title'));
+		plugin.lifelogCache.save = async () => {
+			throw new Error('Disk full');
+		};
+
+		await plugin.rerenderFromCache();
+
+		assert.ok(vault.readNote('Limitless/2025-03-16.md').includes('Code review'));
+		assert.equal(plugin.isSyncing, false);
+	} finally {
+		await close();
+	}
+});
+
+test('resyncing a lifelog note writes its day once', async () => {
+	const { plugin, vault, server, close } = await createHarness({ outputMode: 'lifelog' });
+	try {
+		const notePath = vault.listNotes().find(path => vault.readNote(path).includes('limitless-id: ll-0316-b'));
+		assert.ok(notePath);
+		const note = vault.getAbstractFileByPath(notePath) as any;
+		await vault.modify(note, vault.readNote(notePath).replace('Code review', 'Stale title'));
+		let dayWrites = 0;
+		const writeDayNotes = plugin.writeDayNotes.bind(plugin);
+		plugin.writeDayNotes = (...args: Parameters<typeof writeDayNotes>) => {
+			dayWrites++;
+			return writeDayNotes(...args);
+		};
+		// Another lifelog of the day changed upstream
+		const planning = server.lifelogs.find(lifelog => lifelog.id === 'll-0316-a') as Lifelog;
+		planning.title = 'Planning the holiday';
+		server.requests = [];
+
+		await plugin.resyncNote(note);
+
+		// The day is fetched and written once, with the resynced lifelog as well as the changed one
+		assert.deepEqual([...new Set(server.requests.map(url => url.searchParams.get('date')))], ['2025-03-16']);
+		assert.ok(vault.readNote(notePath).includes('Code review'));
+		assert.ok(vault.listNotes().some(path => vault.readNote(path).includes('Planning the holiday')));
+		assert.equal(dayWrites, 1);
+		assert.equal(plugin.isSyncing, false);
+	} finally {
+		await close();
+	}
+});
+
+test('profiles sync their own account into their own folder', async () => {
+	const { plugin, vault, server, close } = await createHarness();
+	const workServer = new MockLimitlessServer({
+		apiKey: 'work-api-key',
+		lifelogs: loadFixtureLifelogs().filter(lifelog => lifelog.id === 'll-0317-b'),
+		maxPageSize: 2
+	});
+	await workServer.start();
+	try {
+		const work = await plugin.addProfile('Work');
+		Object.assign(work, { apiUrl: workServer.url, apiKey: 'work-api-key', outputFolder: 'Work', startDate: '2025-03-15' });
+		server.requests = [];
+
+		await plugin.syncAllProfiles();
+
+		// Each account is fetched with its own key into its own folder, labelled with the profile
+		assert.ok(server.requests.length > 0);
+		assert.ok(workServer.requests.length > 0);
+		assert.deepEqual(vault.listNotes().filter(path => path.startsWith('Work/')), ['Work/2025-03-17.md']);
+		assert.ok(vault.readNote('Work/2025-03-17.md').includes('limitless-profile: Work'));
+
+		// Sync state and history are kept per profile, and the selected profile is back afterwards
+		assert.equal(work.lastSyncTimestamp, '2025-03-17T19:40:00.000Z');
+		assert.equal(plugin.profile.id, 'default');
+		assert.deepEqual(plugin.syncHistory.runs.slice(0, 2).map(run => run.profile), ['work', 'default']);
+	} finally {
+		await close();
+		await workServer.stop();
+	}
+});
+
+test('redacted names stay out of speaker labels and frontmatter, also when mapped', async () => {
+	const { vault, close } = await createHarness({
+		redaction: { enabled: true, mode: 'mask', detectors: [], customPatterns: '', keywords: 'Alex\nJordan' },
+		speakerMappings: [{ speaker: 'Sam', name: 'Jordan' }]
+	});
+	try {
+		const march15 = vault.readNote('Limitless/2025-03-15.md');
+		assert.ok(!march15.includes('Alex'));
+		assert.ok(!march15.includes('Jordan'));
+		assert.ok(march15.includes('[redacted]'));
+	} finally {
+		await close();
+	}
+});
+
+test('a sync started while another profile is cancelled runs against the selected profile', async () => {
+	const { plugin, server, close } = await createHarness();
+	const workServer = new MockLimitlessServer({ apiKey: 'work-api-key', lifelogs: loadFixtureLifelogs(), maxPageSize: 2 });
+	await workServer.start();
+	try {
+		const work = await plugin.addProfile('Work');
+		Object.assign(work, { apiUrl: workServer.url, apiKey: 'work-api-key', outputFolder: 'Work', startDate: '2025-03-15' });
+		// Keep the work profile's sync waiting on a retry
+		workServer.injectFailures({ status: 504 });
+
+		const syncAll = plugin.syncAllProfiles();
+		for (let waited = 0; plugin.currentJob?.profile !== work && waited < 5000; waited += 10) {
+			await new Promise(resolve => setTimeout(resolve, 10));
+		}
+		assert.equal(plugin.currentJob?.profile, work);
+		server.requests = [];
+		workServer.requests = [];
+
+		const cancel = plugin.cancelOngoingSync();
+		const dateSync = plugin.syncDateRange('2025-03-16', '2025-03-16', false);
+		await Promise.all([cancel, dateSync, syncAll]);
+
+		assert.ok(server.requests.some(url => url.searchParams.get('date') === '2025-03-16'));
+		assert.deepEqual(workServer.requests, []);
+		assert.equal(plugin.syncHistory.runs[0].mode, 'range');
+		assert.equal(plugin.syncHistory.runs[0].profile, 'default');
+		assert.equal(plugin.syncHistory.runs[1].status, 'cancelled');
+		assert.equal(plugin.profile.id, 'default');
+	} finally {
+		await close();
+		await workServer.stop();
+	}
+});
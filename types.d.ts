@@ -4,12 +4,15 @@ declare module 'obsidian' {
         app: App;
         manifest: PluginManifest;
         
+        constructor(app: App, manifest: PluginManifest);
+        
         // Plugin methods
         addRibbonIcon(icon: string, title: string, callback: (evt: MouseEvent) => any): HTMLElement;
         addStatusBarItem(): HTMLElement;
         addCommand(command: Command): void;
         addSettingTab(settingTab: PluginSettingTab): void;
         registerInterval(id: number): void;
+        registerEvent(eventRef: EventRef): void;
         loadData(): Promise<any>;
         saveData(data: any): Promise<void>;
     }
@@ -17,25 +20,61 @@ declare module 'obsidian' {
     export interface App {
         workspace: Workspace;
         vault: Vault;
+        metadataCache: MetadataCache;
+        fileManager: FileManager;
+    }
+    
+    export interface CachedMetadata {
+        frontmatter?: Record<string, any>;
+    }
+    
+    export interface MetadataCache {
+        getFileCache(file: TFile): CachedMetadata | null;
+    }
+    
+    export interface FileManager {
+        renameFile(file: TFile, newPath: string): Promise<void>;
     }
     
     export interface Workspace {
         getActiveFile(): TFile | null;
+        on(name: 'file-menu', callback: (menu: Menu, file: TFile | TFolder, source: string) => any): EventRef;
+    }
+    
+    export interface EventRef {}
+    
+    export class Menu {
+        addItem(cb: (item: MenuItem) => any): this;
+        showAtMouseEvent(evt: MouseEvent): this;
+    }
+    
+    export class MenuItem {
+        setTitle(title: string): this;
+        setIcon(icon: string | null): this;
+        onClick(callback: (evt: MouseEvent | KeyboardEvent) => any): this;
     }
     
     export interface Vault {
         getAbstractFileByPath(path: string): TFile | TFolder | null;
+        getMarkdownFiles(): TFile[];
+        configDir: string;
         read(file: TFile): Promise<string>;
         modify(file: TFile, data: string): Promise<void>;
         create(path: string, data: string): Promise<TFile>;
         createFolder(path: string): Promise<TFolder>;
-        adapter: {
-            exists(path: string): Promise<boolean>;
-        };
+        adapter: DataAdapter;
+    }
+    
+    export interface DataAdapter {
+        exists(path: string): Promise<boolean>;
+        read(path: string): Promise<string>;
+        write(path: string, data: string): Promise<void>;
     }
     
     export class TFile {
         path: string;
+        basename: string;
+        extension: string;
     }
     
     export class TFolder {
@@ -51,12 +90,14 @@ declare module 'obsidian' {
         author: string;
         authorUrl: string;
         isDesktopOnly: boolean;
+        dir?: string;
     }
     
     export interface Command {
         id: string;
         name: string;
-        callback: () => any;
+        callback?: () => any;
+        checkCallback?: (checking: boolean) => boolean | void;
     }
     
     export class PluginSettingTab {
@@ -77,11 +118,31 @@ declare module 'obsidian' {
         addSlider(cb: (slider: any) => any): this;
     }
     
+    export class Modal {
+        app: App;
+        titleEl: HTMLElement;
+        contentEl: HTMLElement;
+        
+        constructor(app: App);
+        open(): void;
+        close(): void;
+        onOpen(): void;
+        onClose(): void;
+    }
+    
     export class Notice {
         constructor(message: string, timeout?: number);
     }
     
     export function normalizePath(path: string): string;
+    export function parseYaml(yaml: string): any;
+    export function stringifyYaml(obj: any): string;
+    
+    export interface Moment {
+        format(format?: string): string;
+    }
+    
+    export function moment(date?: Date | string | number): Moment;
     
     export interface RequestUrlParam {
         url: string;
@@ -89,6 +150,7 @@ declare module 'obsidian' {
         headers?: Record<string, string>;
         contentType?: string;
         body?: string | ArrayBuffer;
+        throw?: boolean; // Reject on responses with a status of 400 or more (default true)
     }
     
     export interface RequestUrlResponse {